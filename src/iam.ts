@@ -0,0 +1,498 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/*!
+ * @module common/iam
+ */
+
+import * as r from 'teeny-request';
+
+import {
+  AbortSignalOptions,
+  RequestResponse,
+  ServiceObject,
+} from './service-object';
+import {
+  ApiError,
+  DecorateRequestOptions,
+  PreconditionFailedError,
+  util,
+} from './util';
+
+/**
+ * A condition under which a binding applies, in the Common Expression
+ * Language.
+ */
+export interface Expr {
+  expression: string;
+  title?: string;
+  description?: string;
+  location?: string;
+}
+
+export interface Binding {
+  /**
+   * The role granted to the members, e.g. `roles/viewer`.
+   */
+  role: string;
+
+  /**
+   * The principals granted the role, e.g. `user:alice@example.com`.
+   */
+  members: string[];
+
+  /**
+   * Only grant the role while this condition holds. Requires version 3 of
+   * the policy.
+   */
+  condition?: Expr;
+}
+
+export interface Policy {
+  /**
+   * The format of the policy. Version 3 is required for conditional
+   * bindings.
+   */
+  version?: number;
+  bindings?: Binding[];
+
+  /**
+   * Identifies the read policy. A policy set with an etag is only applied if
+   * the policy was not modified since.
+   */
+  etag?: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  auditConfigs?: any[];
+}
+
+export interface IamConfig {
+  /**
+   * The policy version to request, unless a call asks for another.
+   * (default: 3)
+   */
+  requestedPolicyVersion?: number;
+}
+
+export type GetPolicyOptions = {
+  /**
+   * The policy version to request. Policies with conditional bindings can
+   * only be read with version 3.
+   */
+  requestedPolicyVersion?: number;
+} & AbortSignalOptions;
+
+export type SetPolicyOptions = {
+  /**
+   * The fields of the policy to update. (default: "bindings,etag")
+   */
+  updateMask?: string | string[];
+} & AbortSignalOptions;
+
+export type PolicyResponse = [Policy, r.Response];
+export interface PolicyCallback {
+  (err: Error | null, policy?: Policy, apiResponse?: r.Response): void;
+}
+
+export interface Permissions {
+  [permission: string]: boolean;
+}
+export type TestPermissionsResponse = [Permissions, r.Response];
+export interface TestPermissionsCallback {
+  (
+    err: Error | null,
+    permissions?: Permissions,
+    apiResponse?: r.Response,
+  ): void;
+}
+
+export interface UpdatePolicyOptions extends GetPolicyOptions {
+  /**
+   * How many times to retry the read-modify-write cycle when the policy was
+   * modified concurrently. (default: 3)
+   */
+  maxRetries?: number;
+}
+export interface UpdatePolicyFunction {
+  (policy: Policy): Policy | Promise<Policy>;
+}
+
+/**
+ * Default behavior: Request version 3 policies, which may hold conditional
+ * bindings.
+ *
+ * @const {number}
+ * @private
+ */
+const REQUESTED_POLICY_VERSION_DEFAULT = 3;
+
+/**
+ * Default behavior: Retry a conflicting `updatePolicy` 3 times.
+ *
+ * @const {number}
+ * @private
+ */
+const UPDATE_POLICY_MAX_RETRIES_DEFAULT = 3;
+
+/**
+ * The lowest policy version which can hold the bindings of a policy.
+ *
+ * @private
+ */
+function getPolicyVersion(policy: Policy): number | undefined {
+  const hasConditions = (policy.bindings || []).some(
+    binding => !!binding.condition,
+  );
+  if (hasConditions && !(policy.version! >= 3)) {
+    return 3;
+  }
+  return policy.version;
+}
+
+/**
+ * An Iam manages the IAM policy of a `ServiceObject`, through the standard
+ * `:getIamPolicy`, `:setIamPolicy` and `:testIamPermissions` methods of the
+ * resource. The requests are made with the object's `request` method, so its
+ * interceptors apply.
+ *
+ * @example
+ * class Topic extends ServiceObject {
+ *   iam = new Iam(this);
+ * }
+ */
+class Iam {
+  serviceObject: ServiceObject;
+  requestedPolicyVersion: number;
+
+  /**
+   * @constructor
+   * @alias module:common/iam
+   *
+   * @param {ServiceObject} serviceObject - The object the policy belongs to.
+   * @param {object=} config - Configuration object.
+   * @param {number=} config.requestedPolicyVersion - The policy version to
+   *     request.
+   */
+  constructor(serviceObject: ServiceObject, config: IamConfig = {}) {
+    this.serviceObject = serviceObject;
+    this.requestedPolicyVersion =
+      config.requestedPolicyVersion || REQUESTED_POLICY_VERSION_DEFAULT;
+  }
+
+  /**
+   * Get the IAM policy of the object.
+   *
+   * @param {object=} options - Configuration object.
+   * @param {number=} options.requestedPolicyVersion - The policy version to
+   *     request.
+   * @param {AbortSignal=} options.signal - A signal to cancel the request.
+   * @param {function} callback - The callback function.
+   * @param {?error} callback.err - An error returned while making this request.
+   * @param {object} callback.policy - The policy.
+   * @param {object} callback.apiResponse - The full API response.
+   */
+  getPolicy(options?: GetPolicyOptions): Promise<PolicyResponse>;
+  getPolicy(options: GetPolicyOptions, callback: PolicyCallback): void;
+  getPolicy(callback: PolicyCallback): void;
+  getPolicy(
+    optionsOrCallback?: GetPolicyOptions | PolicyCallback,
+    cb?: PolicyCallback,
+  ): Promise<PolicyResponse> | void {
+    const [options, callback] = util.maybeOptionsOrCallback<
+      GetPolicyOptions,
+      PolicyCallback
+    >(optionsOrCallback, cb);
+
+    if (!callback) {
+      return this.getPolicyAsync(options);
+    }
+    this.getPolicyAsync(options).then(
+      ([policy, apiResponse]) => callback(null, policy, apiResponse),
+      err => callback(err, undefined, err.response),
+    );
+  }
+
+  protected async getPolicyAsync(
+    options: GetPolicyOptions = {},
+  ): Promise<PolicyResponse> {
+    const [policy, res] = await this.request_({
+      method: 'POST',
+      uri: ':getIamPolicy',
+      json: {
+        options: {
+          requestedPolicyVersion:
+            options.requestedPolicyVersion || this.requestedPolicyVersion,
+        },
+      },
+      signal: options.signal,
+    });
+    return [policy || {}, res];
+  }
+
+  /**
+   * Set the IAM policy of the object, replacing the existing one. If the
+   * policy has an `etag`, it is only applied if the policy was not modified
+   * since it was read; otherwise, a `PreconditionFailedError` is returned.
+   *
+   * Policies with conditional bindings are sent as version 3.
+   *
+   * @param {object} policy - The policy.
+   * @param {object=} options - Configuration object.
+   * @param {string|string[]=} options.updateMask - The fields to update.
+   * @param {AbortSignal=} options.signal - A signal to cancel the request.
+   * @param {function} callback - The callback function.
+   * @param {?error} callback.err - An error returned while making this request.
+   * @param {object} callback.policy - The updated policy.
+   * @param {object} callback.apiResponse - The full API response.
+   */
+  setPolicy(
+    policy: Policy,
+    options?: SetPolicyOptions,
+  ): Promise<PolicyResponse>;
+  setPolicy(
+    policy: Policy,
+    options: SetPolicyOptions,
+    callback: PolicyCallback,
+  ): void;
+  setPolicy(policy: Policy, callback: PolicyCallback): void;
+  setPolicy(
+    policy: Policy,
+    optionsOrCallback?: SetPolicyOptions | PolicyCallback,
+    cb?: PolicyCallback,
+  ): Promise<PolicyResponse> | void {
+    const [options, callback] = util.maybeOptionsOrCallback<
+      SetPolicyOptions,
+      PolicyCallback
+    >(optionsOrCallback, cb);
+
+    if (!callback) {
+      return this.setPolicyAsync(policy, options);
+    }
+    this.setPolicyAsync(policy, options).then(
+      ([policy, apiResponse]) => callback(null, policy, apiResponse),
+      err => callback(err, undefined, err.response),
+    );
+  }
+
+  protected async setPolicyAsync(
+    policy: Policy,
+    options: SetPolicyOptions = {},
+  ): Promise<PolicyResponse> {
+    const version = getPolicyVersion(policy);
+    const json: {policy: Policy; updateMask?: string} = {
+      policy:
+        version === undefined ? policy : Object.assign({}, policy, {version}),
+    };
+    if (options.updateMask) {
+      json.updateMask = Array.isArray(options.updateMask)
+        ? options.updateMask.join(',')
+        : options.updateMask;
+    }
+
+    try {
+      const [updatedPolicy, res] = await this.request_({
+        method: 'POST',
+        uri: ':setIamPolicy',
+        json,
+        signal: options.signal,
+      });
+      return [updatedPolicy, res];
+    } catch (err) {
+      const code = (err as ApiError).code;
+      if (json.policy.etag && (code === 409 || code === 412)) {
+        throw new PreconditionFailedError(err as ApiError);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Check which of the given permissions the caller has on the object.
+   *
+   * @param {string|string[]} permissions - The permissions to check, e.g.
+   *     `storage.buckets.get`.
+   * @param {object=} options - Configuration object.
+   * @param {AbortSignal=} options.signal - A signal to cancel the request.
+   * @param {function} callback - The callback function.
+   * @param {?error} callback.err - An error returned while making this request.
+   * @param {object} callback.permissions - Whether the caller has each
+   *     permission, keyed by permission.
+   * @param {object} callback.apiResponse - The full API response.
+   */
+  testPermissions(
+    permissions: string | string[],
+    options?: AbortSignalOptions,
+  ): Promise<TestPermissionsResponse>;
+  testPermissions(
+    permissions: string | string[],
+    options: AbortSignalOptions,
+    callback: TestPermissionsCallback,
+  ): void;
+  testPermissions(
+    permissions: string | string[],
+    callback: TestPermissionsCallback,
+  ): void;
+  testPermissions(
+    permissions: string | string[],
+    optionsOrCallback?: AbortSignalOptions | TestPermissionsCallback,
+    cb?: TestPermissionsCallback,
+  ): Promise<TestPermissionsResponse> | void {
+    const [options, callback] = util.maybeOptionsOrCallback<
+      AbortSignalOptions,
+      TestPermissionsCallback
+    >(optionsOrCallback, cb);
+
+    if (!callback) {
+      return this.testPermissionsAsync(permissions, options);
+    }
+    this.testPermissionsAsync(permissions, options).then(
+      ([permissions, apiResponse]) => callback(null, permissions, apiResponse),
+      err => callback(err, undefined, err.response),
+    );
+  }
+
+  protected async testPermissionsAsync(
+    permissions: string | string[],
+    options: AbortSignalOptions = {},
+  ): Promise<TestPermissionsResponse> {
+    const permissionList = Array.isArray(permissions)
+      ? permissions
+      : [permissions];
+
+    const [body, res] = await this.request_({
+      method: 'POST',
+      uri: ':testIamPermissions',
+      json: {
+        permissions: permissionList,
+      },
+      signal: options.signal,
+    });
+
+    const granted: string[] = (body && body.permissions) || [];
+    const permissionsMap = permissionList.reduce((acc, permission) => {
+      acc[permission] = granted.indexOf(permission) > -1;
+      return acc;
+    }, {} as Permissions);
+    return [permissionsMap, res];
+  }
+
+  /**
+   * Update the IAM policy of the object with a read-modify-write cycle. The
+   * current policy is fetched and passed to `fn`, and the policy it returns is
+   * set guarded by the etag of the fetched policy. If the policy was modified
+   * in the meantime, the cycle is retried with the new policy.
+   *
+   * @example
+   * await iam.updatePolicy(policy => {
+   *   policy.bindings = (policy.bindings || []).concat({
+   *     role: 'roles/viewer',
+   *     members: ['user:alice@example.com'],
+   *   });
+   *   return policy;
+   * });
+   *
+   * @param {function} fn - Returns the policy to set, given the current
+   *     policy. May return a promise.
+   * @param {object=} options - Configuration object.
+   * @param {number=} options.requestedPolicyVersion - The policy version to
+   *     request.
+   * @param {number=} options.maxRetries - How many times to retry on
+   *     conflicts.
+   * @param {AbortSignal=} options.signal - A signal to cancel the requests.
+   * @param {function=} callback - The callback function.
+   * @param {?error} callback.err - An error returned while making this request.
+   * @param {object} callback.policy - The updated policy.
+   * @param {object} callback.apiResponse - The full API response.
+   */
+  updatePolicy(
+    fn: UpdatePolicyFunction,
+    options?: UpdatePolicyOptions,
+  ): Promise<PolicyResponse>;
+  updatePolicy(fn: UpdatePolicyFunction, callback: PolicyCallback): void;
+  updatePolicy(
+    fn: UpdatePolicyFunction,
+    options: UpdatePolicyOptions,
+    callback: PolicyCallback,
+  ): void;
+  updatePolicy(
+    fn: UpdatePolicyFunction,
+    optionsOrCallback?: UpdatePolicyOptions | PolicyCallback,
+    cb?: PolicyCallback,
+  ): Promise<PolicyResponse> | void {
+    const [options, callback] = util.maybeOptionsOrCallback<
+      UpdatePolicyOptions,
+      PolicyCallback
+    >(optionsOrCallback, cb);
+
+    if (!callback) {
+      return this.updatePolicyAsync(fn, options);
+    }
+    this.updatePolicyAsync(fn, options).then(
+      ([policy, apiResponse]) => callback(null, policy, apiResponse),
+      err => callback(err, undefined, err.response),
+    );
+  }
+
+  protected async updatePolicyAsync(
+    fn: UpdatePolicyFunction,
+    options: UpdatePolicyOptions = {},
+  ): Promise<PolicyResponse> {
+    const maxRetries =
+      typeof options.maxRetries === 'number'
+        ? options.maxRetries
+        : UPDATE_POLICY_MAX_RETRIES_DEFAULT;
+
+    for (let retries = 0; ; retries++) {
+      const [policy] = await this.getPolicy({
+        requestedPolicyVersion: options.requestedPolicyVersion,
+        signal: options.signal,
+      });
+      const etag = policy.etag;
+      const updatedPolicy = await fn(policy);
+      try {
+        return await this.setPolicy(Object.assign({}, updatedPolicy, {etag}), {
+          signal: options.signal,
+        });
+      } catch (err) {
+        if (
+          !(err instanceof PreconditionFailedError) ||
+          retries >= maxRetries
+        ) {
+          throw err;
+        }
+      }
+    }
+  }
+
+  /**
+   * Make a request with the object's `request` method, through its callback
+   * form, as overrides are not required to support promises.
+   *
+   * @private
+   *
+   * @param {object} reqOpts - Request options that are passed to `request`.
+   */
+  private request_(reqOpts: DecorateRequestOptions): Promise<RequestResponse> {
+    return new Promise((resolve, reject) => {
+      this.serviceObject.request(reqOpts, (err, body, res) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve([body, res!]);
+      });
+    });
+  }
+}
+
+export {Iam};
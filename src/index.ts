@@ -13,11 +13,66 @@
 // limitations under the License.
 
 export {GoogleAuthOptions} from 'google-auth-library';
+/**
+ * @type {module:common/iam}
+ * @private
+ */
+export {
+  Binding,
+  Expr,
+  GetPolicyOptions,
+  Iam,
+  IamConfig,
+  Permissions,
+  Policy,
+  PolicyCallback,
+  PolicyResponse,
+  SetPolicyOptions,
+  TestPermissionsCallback,
+  TestPermissionsResponse,
+  UpdatePolicyFunction,
+  UpdatePolicyOptions,
+} from './iam';
 /**
  * @type {module:common/operation}
  * @private
  */
-export {Operation} from './operation';
+export {
+  LongRunningOperation,
+  Operation,
+  OperationJSON,
+  OperationMetadata,
+  OperationPromiseOptions,
+  OperationState,
+  OperationTimeoutError,
+  RpcStatus,
+} from './operation';
+/**
+ * @type {module:common/operation-poller}
+ * @private
+ */
+export {OperationPoller, OperationPollerOptions} from './operation-poller';
+/**
+ * @type {module:common/operations-client}
+ * @private
+ */
+export {
+  GetOperationsCallback,
+  GetOperationsOptions,
+  GetOperationsResponse,
+  OperationsClient,
+  OperationsClientConfig,
+} from './operations-client';
+/**
+ * @type {module:common/paginator}
+ * @private
+ */
+export {
+  createListStream,
+  PageRequestFunction,
+  PaginateOptions,
+  paginate,
+} from './paginator';
 /**
  * @type {module:common/service}
  * @private
@@ -33,20 +88,34 @@ export {
  * @private
  */
 export {
+  AbortSignalOptions,
+  CustomMethod,
+  CustomMethodCallback,
+  CustomMethodResponse,
   DeleteCallback,
+  DeleteResponse,
   ExistsCallback,
   GetConfig,
+  GetMetadataOptions,
   InstanceResponseCallback,
   Interceptor,
+  LongRunningMethodConfig,
   Metadata,
   MetadataCallback,
+  MetadataChangedEvent,
+  MetadataPatch,
   MetadataResponse,
+  MethodConfig,
   Methods,
+  PollingConfig,
   ResponseCallback,
   ServiceObject,
   ServiceObjectConfig,
   ServiceObjectParent,
+  SetMetadataOptions,
   SetMetadataResponse,
+  UpdateMetadataFunction,
+  UpdateMetadataOptions,
 } from './service-object';
 /**
  * @type {module:common/util}
@@ -58,6 +127,7 @@ export {
   ApiError,
   BodyResponseCallback,
   DecorateRequestOptions,
+  PreconditionFailedError,
   ResponseBody,
   util,
 } from './util';
@@ -0,0 +1,240 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/*!
+ * @module common/operation-poller
+ */
+
+import {LongRunningOperation, Operation} from './operation';
+
+/**
+ * Default behavior: Poll at most 10 operations at the same time.
+ *
+ * @const {number}
+ * @private
+ */
+const MAX_CONCURRENT_POLLS_DEFAULT = 10;
+
+/**
+ * Default behavior: Wait 1 second between polling rounds.
+ *
+ * @const {number}
+ * @private
+ */
+const POLL_INTERVAL_MS_DEFAULT = 1000;
+
+export interface OperationPollerOptions {
+  /**
+   * The maximum number of `getMetadata` requests in flight at any time.
+   * (default: 10)
+   */
+  maxConcurrentPolls?: number;
+
+  /**
+   * How long to wait between polling rounds. (default: 1000)
+   */
+  pollIntervalMs?: number;
+}
+
+interface PendingOperation {
+  operation: Operation;
+  promise: Promise<LongRunningOperation>;
+  resolve(metadata: LongRunningOperation): void;
+  reject(err: Error): void;
+}
+
+/**
+ * An OperationPoller waits on many operations at once. Instead of every
+ * operation running its own timer loop, all owned operations are polled in
+ * rounds on a single timer, with a cap on the number of concurrent requests.
+ *
+ * Operations added to a poller may also be waited on through their own
+ * `complete` listeners; a poll in flight is shared rather than repeated.
+ */
+export class OperationPoller {
+  maxConcurrentPolls: number;
+  pollIntervalMs: number;
+  private pending_: Map<Operation, PendingOperation>;
+  private timer_?: NodeJS.Timeout;
+  private polling_: boolean;
+
+  /**
+   * @constructor
+   * @alias module:common/operation-poller
+   *
+   * @param {object=} options - Configuration object.
+   * @param {number=} options.maxConcurrentPolls - The maximum number of
+   *     requests in flight at any time.
+   * @param {number=} options.pollIntervalMs - How long to wait between
+   *     polling rounds.
+   */
+  constructor(options: OperationPollerOptions = {}) {
+    this.maxConcurrentPolls =
+      options.maxConcurrentPolls || MAX_CONCURRENT_POLLS_DEFAULT;
+    this.pollIntervalMs = options.pollIntervalMs || POLL_INTERVAL_MS_DEFAULT;
+    this.pending_ = new Map();
+    this.polling_ = false;
+  }
+
+  /**
+   * The number of operations which have not completed yet.
+   */
+  get size(): number {
+    return this.pending_.size;
+  }
+
+  /**
+   * Start polling an operation.
+   *
+   * @param {Operation} operation - The operation to wait on.
+   * @return {Promise} Resolves with the metadata of the completed operation.
+   */
+  add(operation: Operation): Promise<LongRunningOperation> {
+    const existing = this.pending_.get(operation);
+    if (existing) {
+      return existing.promise;
+    }
+
+    const entry = {operation} as PendingOperation;
+    entry.promise = new Promise((resolve, reject) => {
+      entry.resolve = resolve;
+      entry.reject = reject;
+    });
+    this.pending_.set(operation, entry);
+    this.schedule_(0);
+    return entry.promise;
+  }
+
+  /**
+   * Stop polling an operation. Its pending promise is rejected.
+   *
+   * @param {Operation} operation - The operation to stop waiting on.
+   */
+  remove(operation: Operation): void {
+    const entry = this.pending_.get(operation);
+    if (entry) {
+      this.pending_.delete(operation);
+      entry.reject(new Error('The operation was removed from the poller.'));
+    }
+    if (this.pending_.size === 0) {
+      this.close();
+    }
+  }
+
+  /**
+   * Wait for every operation to complete.
+   *
+   * @param {Operation[]} operations - The operations to wait on.
+   * @return {Promise} Resolves with the metadata of each operation, in order,
+   *     or rejects with the first error.
+   */
+  waitAll(operations: Operation[]): Promise<LongRunningOperation[]> {
+    return Promise.all(operations.map(operation => this.add(operation)));
+  }
+
+  /**
+   * Wait for the first of the operations to complete. The remaining
+   * operations are still polled until they complete or are removed.
+   *
+   * @param {Operation[]} operations - The operations to wait on.
+   * @return {Promise} Resolves with the metadata and the operation which
+   *     completed first, or rejects with the first error.
+   */
+  waitAny(operations: Operation[]): Promise<[LongRunningOperation, Operation]> {
+    return Promise.race(
+      operations.map(operation =>
+        this.add(operation).then(
+          metadata =>
+            [metadata, operation] as [LongRunningOperation, Operation],
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Stop polling all operations. Their pending promises are rejected.
+   */
+  close(): void {
+    const entries = Array.from(this.pending_.values());
+    this.pending_.clear();
+    entries.forEach(entry => {
+      entry.reject(new Error('The poller was closed.'));
+    });
+    if (this.timer_) {
+      clearTimeout(this.timer_);
+      this.timer_ = undefined;
+    }
+  }
+
+  /**
+   * Schedule the next polling round, unless one is already scheduled or in
+   * progress.
+   *
+   * @private
+   */
+  private schedule_(delayMs: number) {
+    if (this.timer_ || this.polling_ || this.pending_.size === 0) {
+      return;
+    }
+    this.timer_ = setTimeout(() => {
+      this.timer_ = undefined;
+      void this.pollRound_();
+    }, delayMs);
+  }
+
+  /**
+   * Poll every pending operation once, with at most `maxConcurrentPolls`
+   * requests in flight.
+   *
+   * @private
+   */
+  private async pollRound_() {
+    this.polling_ = true;
+    const queue = Array.from(this.pending_.values());
+    const worker = async () => {
+      for (let entry = queue.shift(); entry; entry = queue.shift()) {
+        await this.pollOperation_(entry);
+      }
+    };
+    const workers = Math.min(this.maxConcurrentPolls, queue.length);
+    await Promise.all(Array.from({length: workers}, worker));
+    this.polling_ = false;
+    this.schedule_(this.pollIntervalMs);
+  }
+
+  /**
+   * Poll a single operation, settling its promise once it is done.
+   *
+   * @private
+   */
+  private async pollOperation_(entry: PendingOperation) {
+    const {operation} = entry;
+    if (!this.pending_.has(operation)) {
+      // The operation was removed while the round was in progress.
+      return;
+    }
+    try {
+      const metadata = await operation.pollOnce();
+      if (!metadata || !this.pending_.has(operation)) {
+        return;
+      }
+      this.pending_.delete(operation);
+      entry.resolve(metadata);
+    } catch (err) {
+      if (this.pending_.delete(operation)) {
+        entry.reject(err as Error);
+      }
+    }
+  }
+}
@@ -16,19 +16,171 @@
  * @module common/operation
  */
 
+import * as r from 'teeny-request';
+
 import {
   Metadata,
   MetadataCallback,
+  PollingConfig,
+  ResponseCallback,
   ServiceObject,
   ServiceObjectConfig,
+  ServiceObjectParent,
 } from './service-object';
-import {ApiError} from './util';
-import {promisify} from 'util';
+import {ApiError, GoogleErrorBody, util} from './util';
+import {isDeepStrictEqual} from 'util';
+
+/**
+ * Default behavior: Tolerate 3 consecutive transient polling failures.
+ *
+ * @const {number}
+ * @private
+ */
+const MAX_POLL_RETRIES_DEFAULT = 3;
+
+/**
+ * Default behavior: Ask the server to wait up to 30 seconds per `:wait` call.
+ *
+ * @const {number}
+ * @private
+ */
+const WAIT_TIMEOUT_MS_DEFAULT = 30000;
+
+/**
+ * A `:wait` call which took at least this share of its timeout is considered
+ * to have blocked on the server, so the next poll is made without delay.
+ *
+ * @const {number}
+ * @private
+ */
+const WAIT_BLOCKED_RATIO = 0.9;
 
+export interface OperationPromiseOptions {
+  /**
+   * The maximum time, in milliseconds, to wait for the operation to complete
+   * before rejecting with an `OperationTimeoutError`. Only this caller stops
+   * waiting; unlike `pollingConfig.totalTimeoutMs`, the operation does not
+   * fail.
+   */
+  timeout?: number;
+
+  /**
+   * A signal which, when aborted, stops waiting for the operation and rejects
+   * with the signal's reason. The operation itself is not cancelled; use
+   * `cancel()` for that.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A `google.rpc.Status`, describing why an operation failed.
+ */
+export interface RpcStatus {
+  code: number;
+  message?: string;
+  details?: Array<{}>;
+}
+
+/**
+ * A `google.longrunning.Operation` resource, as returned while polling.
+ */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export class Operation<T = any> extends ServiceObject<T> {
+export interface LongRunningOperation<M = any, R = any> {
+  name?: string;
+  metadata?: M;
+  done?: boolean;
+  error?: RpcStatus;
+  response?: R;
+}
+
+/**
+ * Whether `X` is `any`.
+ *
+ * @private
+ */
+type IsAny<X> = 0 extends 1 & X ? true : false;
+
+/**
+ * The type of an operation's cached `metadata`. It is the untyped `Metadata`
+ * unless the types of the operation's `metadata` or `response` fields are
+ * given, so subclasses may keep treating it as any other resource.
+ */
+export type OperationMetadata<M, R> = [IsAny<M>, IsAny<R>] extends [true, true]
+  ? Metadata
+  : LongRunningOperation<M, R>;
+
+/**
+ * The lifecycle of an operation's polling loop:
+ *
+ * - `idle`: Nobody is listening for `complete`, so no polling happens.
+ * - `polling`: A single polling loop is running.
+ * - `complete`: The operation finished successfully. Terminal.
+ * - `failed`: The operation or its polling failed. Terminal.
+ * - `cancelled`: The operation finished with a `CANCELLED` status. Terminal.
+ */
+export type OperationState =
+  | 'idle'
+  | 'polling'
+  | 'complete'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * The serializable state of an operation, as returned by `Operation#toJSON()`.
+ */
+export interface OperationJSON {
+  id?: string;
+  baseUrl?: string;
+  projectId?: string;
+  pollIntervalMs?: number;
+  pollingConfig?: PollingConfig;
+
+  /**
+   * The time, in milliseconds since the epoch, after which waiting for the
+   * operation times out.
+   */
+  deadline?: number;
+}
+
+/**
+ * Custom error type for operations which did not complete before their
+ * deadline.
+ *
+ * @param {object} metadata - The last metadata seen for the operation.
+ */
+export class OperationTimeoutError extends Error {
+  metadata: Metadata;
+  constructor(metadata: Metadata) {
+    super('The operation did not complete before the deadline.');
+    this.name = 'OperationTimeoutError';
+    this.metadata = metadata;
+  }
+}
+
+/**
+ * @template T - The type of the operation instance.
+ * @template M - The type of the operation's `metadata` field.
+ * @template R - The type of the operation's `response` field.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export class Operation<T = any, M = any, R = any> extends ServiceObject<
+  T,
+  OperationMetadata<M, R>
+> {
   completeListeners: number;
   hasActiveListeners: boolean;
+  state: OperationState;
+  private pollTimer_?: NodeJS.Timeout;
+  private pollInFlight_: boolean;
+  private pollPromise_?: Promise<LongRunningOperation<M, R> | undefined>;
+  private result_?: LongRunningOperation<M, R>;
+  private error_?: Error;
+  private pollDelayMs_?: number;
+  private deadline_?: number;
+  private lastSnapshot_?: Metadata;
+  private pollFailures_ = 0;
+  private waitUnsupported_ = false;
+  private waitTimeoutMs_?: number;
 
   /**
    * An Operation object allows you to interact with APIs that take longer to
@@ -74,22 +226,266 @@ export class Operation<T = any> extends ServiceObject<T> {
     super(config);
     this.completeListeners = 0;
     this.hasActiveListeners = false;
+    this.state = 'idle';
+    this.pollInFlight_ = false;
     this.listenForEvents_();
   }
 
+  /**
+   * Rebuild an operation from the output of `Operation#toJSON()`, for example
+   * to resume waiting on it after a process restart.
+   *
+   * @param {object|string} json - The serialized operation.
+   * @param {object} parent - The parent service instance.
+   * @return {Operation}
+   */
+  static fromJSON(
+    json: OperationJSON | string,
+    parent: ServiceObjectParent,
+  ): Operation {
+    const state: OperationJSON =
+      typeof json === 'string' ? JSON.parse(json) : json;
+    const operation = new Operation({
+      parent,
+      id: state.id,
+      baseUrl: state.baseUrl || '',
+      projectId: state.projectId,
+      pollIntervalMs: state.pollIntervalMs,
+      pollingConfig: state.pollingConfig,
+    });
+    operation.deadline_ = state.deadline;
+    return operation;
+  }
+
+  /**
+   * Serialize the state required to resume waiting on this operation with
+   * `Operation.fromJSON()`.
+   *
+   * @return {object}
+   */
+  toJSON(): OperationJSON {
+    return {
+      id: this.id,
+      baseUrl: this.baseUrl,
+      projectId: this.projectId,
+      pollIntervalMs: this.pollIntervalMs,
+      pollingConfig: this.pollingConfig,
+      deadline: this.deadline_,
+    };
+  }
+
   /**
    * Wraps the `complete` and `error` events in a Promise.
    *
+   * @param {object=} options - Configuration object.
+   * @param {number=} options.timeout - The maximum time, in milliseconds, to
+   *     wait for the operation to complete.
+   * @param {AbortSignal=} options.signal - A signal to stop waiting for the
+   *     operation.
    * @return {Promise}
    */
-  promise() {
+  promise(
+    options: OperationPromiseOptions = {},
+  ): Promise<[LongRunningOperation<M, R>]> {
+    const signal = options.signal;
     return new Promise((resolve, reject) => {
-      this.on('error', reject).on('complete', (metadata: {}) => {
+      if (signal && signal.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      let timer: NodeJS.Timeout | undefined;
+
+      const onError = (err: Error) => {
+        removeListeners();
+        reject(err);
+      };
+      const onComplete = (metadata: LongRunningOperation<M, R>) => {
+        removeListeners();
         resolve([metadata]);
-      });
+      };
+      const onAbort = () => {
+        removeListeners();
+        reject(signal!.reason);
+      };
+      const onTimeout = () => {
+        removeListeners();
+        reject(new OperationTimeoutError(this.metadata));
+      };
+      const removeListeners = () => {
+        this.removeListener('error', onError);
+        this.removeListener('complete', onComplete);
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+        clearTimeout(timer);
+      };
+
+      if (signal) {
+        signal.addEventListener('abort', onAbort);
+      }
+      if (typeof options.timeout === 'number') {
+        timer = setTimeout(onTimeout, options.timeout);
+      }
+      this.on('error', onError).on('complete', onComplete);
     });
   }
 
+  /**
+   * Wait for the operation to complete and unpack its result.
+   *
+   * If the operation failed, the promise is rejected with an `ApiError` built
+   * from the operation's `error` status.
+   *
+   * @param {object=} options - See {@link Operation#promise}.
+   * @return {Promise} The operation's `response` payload.
+   */
+  async result(options?: OperationPromiseOptions): Promise<R> {
+    let metadata: LongRunningOperation<M, R>;
+    try {
+      [metadata] = await this.promise(options);
+    } catch (err) {
+      if (err instanceof Error) {
+        throw err;
+      }
+      throw toApiError(err as RpcStatus);
+    }
+    return metadata.response!;
+  }
+
+  /**
+   * Ask the API to cancel the operation. Cancellation is best-effort; the
+   * operation will eventually complete with an error if it was cancelled.
+   *
+   * @param {function=} callback - The callback function.
+   * @param {?error} callback.err - An error returned while making this request.
+   * @param {object} callback.apiResponse - The full API response.
+   */
+  cancel(): Promise<[r.Response]>;
+  cancel(callback: ResponseCallback): void;
+  cancel(callback?: ResponseCallback): Promise<[r.Response]> | void {
+    if (!callback) {
+      return new Promise((resolve, reject) => {
+        this.cancel((err, apiResponse) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          resolve([apiResponse!]);
+        });
+      });
+    }
+
+    this.request(
+      {
+        method: 'POST',
+        uri: ':cancel',
+      },
+      (err, body, apiResponse) => callback(err, apiResponse),
+    );
+  }
+
+  /**
+   * Poll the operation once, without starting the polling loop. This is used
+   * to drive operations from the outside, e.g. by an `OperationPoller`.
+   *
+   * A poll already in flight, e.g. one of the polling loop started by a
+   * `complete` listener, is shared rather than repeated. Once the operation
+   * is done, it moves to its terminal state, so later calls to `promise()` or
+   * `result()` settle from the cached result instead of polling again.
+   *
+   * @return {Promise<?object>} The metadata of the completed operation, or
+   *     `null` if it is not done yet. Rejects if the operation failed.
+   */
+  async pollOnce(): Promise<LongRunningOperation<M, R> | null> {
+    if (this.state === 'complete') {
+      return this.result_!;
+    }
+    if (this.error_) {
+      throw this.error_;
+    }
+
+    let metadata: LongRunningOperation<M, R> | undefined;
+    try {
+      metadata = await this.pollShared_();
+    } catch (err) {
+      this.fail_(err as Error);
+      throw this.error_;
+    }
+    if (metadata) {
+      this.complete_(metadata);
+    }
+    if (this.error_) {
+      throw this.error_;
+    }
+    return this.result_ || null;
+  }
+
+  /**
+   * Iterate over each distinct metadata snapshot of the operation, as emitted
+   * by the `progress` event. The iteration ends once the operation completes
+   * and throws if the operation fails. Breaking out of the loop stops
+   * polling, as long as nothing else is listening for `complete`.
+   *
+   * @example
+   * for await (const metadata of operation) {
+   *   console.log(metadata.metadata.progressPercent);
+   * }
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<
+    LongRunningOperation<M, R>,
+    void,
+    undefined
+  > {
+    const snapshots: Array<LongRunningOperation<M, R>> = [];
+    let complete = false;
+    let error: Error | undefined;
+    let wake: (() => void) | undefined;
+
+    const notify = () => {
+      if (wake) {
+        wake();
+        wake = undefined;
+      }
+    };
+    const onProgress = (metadata: LongRunningOperation<M, R>) => {
+      snapshots.push(metadata);
+      notify();
+    };
+    const onError = (err: Error) => {
+      error = err;
+      notify();
+    };
+    const onComplete = () => {
+      complete = true;
+      notify();
+    };
+
+    this.on('progress', onProgress)
+      .on('error', onError)
+      .on('complete', onComplete);
+
+    try {
+      for (;;) {
+        if (snapshots.length > 0) {
+          yield snapshots.shift()!;
+          continue;
+        }
+        if (error) {
+          throw error;
+        }
+        if (complete) {
+          return;
+        }
+        await new Promise<void>(resolve => (wake = resolve));
+      }
+    } finally {
+      this.removeListener('progress', onProgress)
+        .removeListener('error', onError)
+        .removeListener('complete', onComplete);
+    }
+  }
+
   /**
    * Begin listening for events on the operation. This method keeps track of how
    * many "complete" listeners are registered and removed, making sure polling
@@ -98,15 +494,27 @@ export class Operation<T = any> extends ServiceObject<T> {
    * As long as there is one active "complete" listener, the connection is open.
    * When there are no more listeners, the polling stops.
    *
+   * Listeners registered after the operation finished are called with the
+   * cached result instead.
+   *
    * @private
    */
   protected listenForEvents_() {
-    this.on('newListener', (event: string) => {
+    this.on('newListener', (event: string, listener: Function) => {
+      if (event === 'complete' && this.state === 'complete') {
+        process.nextTick(() => listener.call(this, this.result_));
+      }
+      if (event === 'error' && this.error_) {
+        process.nextTick(() => listener.call(this, this.error_));
+      }
+
       if (event === 'complete') {
         this.completeListeners++;
         if (!this.hasActiveListeners) {
           this.hasActiveListeners = true;
-          void this.startPolling_();
+          if (this.state === 'idle') {
+            void this.startPolling_();
+          }
         }
       }
     });
@@ -114,6 +522,13 @@ export class Operation<T = any> extends ServiceObject<T> {
     this.on('removeListener', (event: string) => {
       if (event === 'complete' && --this.completeListeners === 0) {
         this.hasActiveListeners = false;
+        if (this.pollTimer_) {
+          clearTimeout(this.pollTimer_);
+          this.pollTimer_ = undefined;
+        }
+        if (this.state === 'polling' && !this.pollInFlight_) {
+          this.state = 'idle';
+        }
       }
     });
   }
@@ -122,24 +537,118 @@ export class Operation<T = any> extends ServiceObject<T> {
    * Poll for a status update. Returns null for an incomplete
    * status, and metadata for a complete status.
    *
+   * A `progress` event is emitted with the metadata every time it differs
+   * from the previous poll.
+   *
    * @private
    */
-  protected poll_(callback: MetadataCallback): void {
-    void this.getMetadata((err: ApiError, body: Metadata) => {
+  protected poll_(
+    callback: MetadataCallback<LongRunningOperation<M, R>>,
+  ): void {
+    const onResponse = (
+      err: ApiError | null,
+      body?: LongRunningOperation<M, R>,
+    ) => {
+      if (err && this.shouldRetryPoll_(err)) {
+        // The state of the operation is unknown; try again on the next poll.
+        callback(null);
+        return;
+      }
+
       if (err || body!.error) {
-        callback(err || (body!.error as Error));
+        callback(err || (body!.error as {} as Error));
         return;
       }
 
+      this.pollFailures_ = 0;
+
+      this.replaceMetadata_(body!);
+      if (!isDeepStrictEqual(body, this.lastSnapshot_)) {
+        this.lastSnapshot_ = body;
+        this.emit('progress', body);
+      }
+
       if (!body!.done) {
         callback(null);
         return;
       }
 
       callback(null, body);
+    };
+
+    if (!this.shouldUseWaitEndpoint_()) {
+      void this.getMetadata(onResponse);
+      return;
+    }
+
+    this.wait_((err, body) => {
+      if (err && [400, 404, 405, 501].includes((err as ApiError).code!)) {
+        // The API doesn't support `:wait`; fall back to regular polling.
+        this.waitUnsupported_ = true;
+        void this.getMetadata(onResponse);
+        return;
+      }
+      if (!err) {
+        this.replaceMetadata_(body);
+      }
+      onResponse(err as ApiError | null, body);
     });
   }
 
+  /**
+   * Whether polls should use the server-side `:wait` method.
+   *
+   * @private
+   */
+  protected shouldUseWaitEndpoint_(): boolean {
+    return !!this.pollingConfig?.useWaitEndpoint && !this.waitUnsupported_;
+  }
+
+  /**
+   * Ask the API to block until the operation is done or the wait timeout,
+   * capped by the remaining time until the deadline, elapses.
+   *
+   * @private
+   */
+  protected wait_(callback: MetadataCallback): void {
+    let timeoutMs =
+      this.pollingConfig?.waitTimeoutMs || WAIT_TIMEOUT_MS_DEFAULT;
+    if (this.deadline_ !== undefined) {
+      timeoutMs = Math.max(0, Math.min(timeoutMs, this.deadline_ - Date.now()));
+    }
+    this.waitTimeoutMs_ = timeoutMs;
+
+    this.request(
+      {
+        method: 'POST',
+        uri: ':wait',
+        json: {
+          timeout: `${timeoutMs / 1000}s`,
+        },
+      },
+      (err, body, apiResponse) => callback(err, body, apiResponse),
+    );
+  }
+
+  /**
+   * Determine if a failed poll should be tolerated, counting it towards the
+   * limit of consecutive transient failures.
+   *
+   * @private
+   */
+  protected shouldRetryPoll_(err: ApiError): boolean {
+    const {
+      maxRetries = MAX_POLL_RETRIES_DEFAULT,
+      retryableErrorFn = util.shouldRetryRequest.bind(util),
+    } = this.pollingConfig || {};
+
+    if (this.pollFailures_ >= maxRetries || !retryableErrorFn(err)) {
+      return false;
+    }
+    this.pollFailures_++;
+    return true;
+  }
+
   /**
    * Poll `getMetadata` to check the operation's status. This runs a loop to
    * ping the API on an interval.
@@ -150,18 +659,178 @@ export class Operation<T = any> extends ServiceObject<T> {
    * @private
    */
   protected async startPolling_() {
-    if (!this.hasActiveListeners) {
+    if (!this.hasActiveListeners || this.pollInFlight_) {
+      return;
+    }
+    if (this.state !== 'idle' && this.state !== 'polling') {
       return;
     }
+    this.state = 'polling';
+    this.pollTimer_ = undefined;
+
+    const totalTimeoutMs = this.pollingConfig?.totalTimeoutMs;
+    if (this.deadline_ === undefined && typeof totalTimeoutMs === 'number') {
+      this.deadline_ = Date.now() + totalTimeoutMs;
+    }
+
+    let metadata: LongRunningOperation<M, R> | undefined;
+    const pollStartedAt = Date.now();
+    this.pollInFlight_ = true;
     try {
-      const metadata = await promisify(this.poll_.bind(this))();
-      if (!metadata) {
-        setTimeout(this.startPolling_.bind(this), this.pollIntervalMs || 500);
+      metadata = await this.pollShared_();
+    } catch (err) {
+      this.pollInFlight_ = false;
+      this.fail_(err as Error);
+      return;
+    }
+    this.pollInFlight_ = false;
+
+    if (metadata) {
+      this.complete_(metadata);
+      return;
+    }
+
+    if (!this.hasActiveListeners) {
+      // Everyone stopped waiting while the poll was in flight.
+      this.state = 'idle';
+      return;
+    }
+
+    // If the server blocked for the whole `:wait` call, it already waited.
+    // It may also return early, in which case the usual delay applies.
+    const blocked =
+      this.waitTimeoutMs_ !== undefined &&
+      Date.now() - pollStartedAt >= this.waitTimeoutMs_ * WAIT_BLOCKED_RATIO;
+    let delayMs = blocked ? 0 : this.getNextPollDelay_();
+    if (this.deadline_ !== undefined) {
+      const remainingMs = this.deadline_ - Date.now();
+      if (remainingMs <= 0) {
+        this.fail_(new OperationTimeoutError(this.metadata));
         return;
       }
+      // Make one last attempt right at the deadline.
+      delayMs = Math.min(delayMs, remainingMs);
+    }
+    this.pollTimer_ = setTimeout(() => this.startPolling_(), delayMs);
+  }
+
+  /**
+   * Poll once, or join the poll already in flight, so the polling loop and
+   * `pollOnce()` never make concurrent requests.
+   *
+   * @private
+   */
+  private pollShared_(): Promise<LongRunningOperation<M, R> | undefined> {
+    if (this.pollPromise_) {
+      return this.pollPromise_;
+    }
+
+    this.waitTimeoutMs_ = undefined;
+    let settled = false;
+    const promise = new Promise<LongRunningOperation<M, R> | undefined>(
+      (resolve, reject) => {
+        this.poll_((err, metadata) => {
+          settled = true;
+          this.pollPromise_ = undefined;
+          if (err) {
+            reject(err);
+            return;
+          }
+          resolve(metadata);
+        });
+      },
+    );
+    // `poll_` may call back synchronously, leaving nothing in flight.
+    if (!settled) {
+      this.pollPromise_ = promise;
+    }
+    return promise;
+  }
+
+  /**
+   * Move to the `complete` state and emit the only `complete` event.
+   *
+   * @private
+   */
+  private complete_(metadata: LongRunningOperation<M, R>) {
+    if (this.isTerminal_()) {
+      return;
+    }
+    this.state = 'complete';
+    this.result_ = metadata;
+    if (this.hasActiveListeners) {
       this.emit('complete', metadata);
-    } catch (err) {
+    }
+  }
+
+  /**
+   * Move to the `failed` or `cancelled` state and emit the only `error`
+   * event.
+   *
+   * @private
+   */
+  private fail_(err: Error) {
+    if (this.isTerminal_()) {
+      return;
+    }
+    // The operation error is a `google.rpc.Status`; 1 is `CANCELLED`.
+    const isCancelled =
+      !(err instanceof Error) && (err as RpcStatus).code === 1;
+    this.state = isCancelled ? 'cancelled' : 'failed';
+    this.error_ = err;
+    if (this.hasActiveListeners) {
       this.emit('error', err);
     }
   }
+
+  /**
+   * Whether the operation reached a terminal state.
+   *
+   * @private
+   */
+  private isTerminal_(): boolean {
+    return (
+      this.state === 'complete' ||
+      this.state === 'failed' ||
+      this.state === 'cancelled'
+    );
+  }
+
+  /**
+   * Calculate how long to wait before the next poll. The delay starts at the
+   * configured initial delay and is multiplied after every poll, up to the
+   * maximum delay, with an optional random jitter applied.
+   *
+   * @private
+   */
+  protected getNextPollDelay_(): number {
+    const {
+      initialDelayMs = this.pollIntervalMs || 500,
+      delayMultiplier = 1,
+      maxDelayMs = Infinity,
+      jitter = 0,
+    } = this.pollingConfig || {};
+
+    const delayMs =
+      this.pollDelayMs_ === undefined
+        ? initialDelayMs
+        : this.pollDelayMs_ * delayMultiplier;
+    this.pollDelayMs_ = Math.min(delayMs, maxDelayMs);
+
+    const spreadMs = this.pollDelayMs_ * jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.min(this.pollDelayMs_ + spreadMs, maxDelayMs));
+  }
+}
+
+/**
+ * Convert the `google.rpc.Status` of a failed operation into an `ApiError`.
+ *
+ * @private
+ */
+function toApiError(status: RpcStatus): ApiError {
+  return new ApiError({
+    code: status.code,
+    message: status.message,
+    errors: [],
+  } as {} as GoogleErrorBody);
 }
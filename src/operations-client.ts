@@ -0,0 +1,192 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/*!
+ * @module common/operations-client
+ */
+
+import {promisifyAll} from '@google-cloud/promisify';
+import * as r from 'teeny-request';
+
+import {LongRunningOperation, Operation} from './operation';
+import {ServiceObject, ServiceObjectParent} from './service-object';
+import {ApiError, ResponseBody, util} from './util';
+
+export interface OperationsClientConfig {
+  /**
+   * The base URL of the resource the operations belong to, relative to the
+   * parent. For example, `locations/us-central1`.
+   */
+  baseUrl?: string;
+
+  /**
+   * The name of the operations collection. (default: "operations")
+   */
+  id?: string;
+
+  /**
+   * The parent service instance.
+   */
+  parent: ServiceObjectParent;
+
+  /**
+   * Override of projectId, used to allow access to operations in another
+   * project.
+   */
+  projectId?: string;
+}
+
+export interface GetOperationsOptions {
+  /**
+   * A filter expression, as defined by the API.
+   */
+  filter?: string;
+
+  /**
+   * The maximum number of operations to return.
+   */
+  pageSize?: number;
+
+  /**
+   * A page token from a previous `getOperations` call.
+   */
+  pageToken?: string;
+}
+
+export type GetOperationsResponse = [
+  Operation[],
+  GetOperationsOptions | null,
+  r.Response,
+];
+export interface GetOperationsCallback {
+  (
+    err: Error | null,
+    operations?: Operation[] | null,
+    nextQuery?: GetOperationsOptions | null,
+    apiResponse?: r.Response,
+  ): void;
+}
+
+/**
+ * An OperationsClient models the collection of long-running operations under
+ * a parent resource, following the `google.longrunning.Operations` API. It is
+ * used to find operations which nobody is waiting on anymore, for example
+ * after a process crashed.
+ */
+class OperationsClient extends ServiceObject {
+  /**
+   * @constructor
+   * @alias module:common/operations-client
+   *
+   * @param {object} config - Configuration object.
+   * @param {string=} config.baseUrl - The base URL of the resource the
+   *     operations belong to.
+   * @param {string=} config.id - The name of the operations collection.
+   * @param {object} config.parent - The parent service instance.
+   * @param {string=} config.projectId - Override of projectId.
+   */
+  constructor(config: OperationsClientConfig) {
+    super({
+      baseUrl: config.baseUrl || '',
+      id: config.id || 'operations',
+      parent: config.parent,
+      projectId: config.projectId,
+      // The collection itself can't be created, fetched or deleted.
+      methods: {},
+    });
+  }
+
+  /**
+   * List the operations in this collection.
+   *
+   * @param {object=} options - Configuration object.
+   * @param {string=} options.filter - A filter expression.
+   * @param {number=} options.pageSize - The maximum number of results.
+   * @param {string=} options.pageToken - A token for the page to return.
+   * @param {function} callback - The callback function.
+   * @param {?error} callback.err - An error returned while making this request.
+   * @param {Operation[]} callback.operations - The operations on this page.
+   * @param {?object} callback.nextQuery - The options to pass to get the next
+   *     page, or `null` if this was the last page.
+   * @param {object} callback.apiResponse - The full API response.
+   */
+  getOperations(options?: GetOperationsOptions): Promise<GetOperationsResponse>;
+  getOperations(
+    options: GetOperationsOptions,
+    callback: GetOperationsCallback,
+  ): void;
+  getOperations(callback: GetOperationsCallback): void;
+  getOperations(
+    optionsOrCallback?: GetOperationsOptions | GetOperationsCallback,
+    cb?: GetOperationsCallback,
+  ): void | Promise<GetOperationsResponse> {
+    const [options, callback] = util.maybeOptionsOrCallback<
+      GetOperationsOptions,
+      GetOperationsCallback
+    >(optionsOrCallback, cb);
+    const query = Object.assign({}, options);
+
+    this.request(
+      {
+        uri: '',
+        qs: query,
+      },
+      (err: ApiError | null, body?: ResponseBody, res?: r.Response) => {
+        if (err) {
+          callback(err, null, null, res);
+          return;
+        }
+
+        const operations = ((body && body.operations) || []).map(
+          (metadata: LongRunningOperation) => {
+            const operation = this.operation(metadata.name!);
+            operation.metadata = metadata;
+            return operation;
+          },
+        );
+
+        const nextQuery =
+          body && body.nextPageToken
+            ? Object.assign({}, query, {pageToken: body.nextPageToken})
+            : null;
+
+        callback(null, operations, nextQuery, res);
+      },
+    );
+  }
+
+  /**
+   * Get a reference to an operation in this collection.
+   *
+   * @param {string} name - The name of the operation. Either its ID, or its
+   *     full resource name ending in the ID.
+   * @return {Operation}
+   */
+  operation(name: string): Operation {
+    return new Operation({
+      parent: this,
+      id: name.split('/').pop(),
+      methods: {
+        delete: true,
+        exists: true,
+        get: true,
+        getMetadata: true,
+      },
+    });
+  }
+}
+
+promisifyAll(OperationsClient, {exclude: ['operation']});
+
+export {OperationsClient};
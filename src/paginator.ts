@@ -0,0 +1,193 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/*!
+ * @module common/paginator
+ */
+
+import {Readable} from 'stream';
+
+import {
+  BodyResponseCallback,
+  DecorateRequestOptions,
+  ResponseBody,
+} from './util';
+
+export interface PaginateOptions {
+  /**
+   * The field of the response body which holds the items of a page.
+   * (default: "items")
+   */
+  itemsKey?: string;
+
+  /**
+   * The maximum number of items to return across all pages.
+   */
+  maxResults?: number;
+
+  /**
+   * The number of items to request per page, sent as the `pageSize` query
+   * parameter.
+   */
+  pageSize?: number;
+
+  /**
+   * The number of pages to request ahead of the page being consumed. As page
+   * tokens are only known once the previous page arrived, prefetched pages
+   * are still requested one after another, but without waiting on the
+   * consumer. Items are always returned in order. (default: 0)
+   */
+  prefetch?: number;
+}
+
+export interface PageRequestFunction {
+  (reqOpts: DecorateRequestOptions, callback: BodyResponseCallback): void;
+}
+
+/**
+ * Iterate over the items of a paged list method, following `nextPageToken`
+ * from each response into the `pageToken` query parameter of the next
+ * request. By default, a page is only requested once the items of the
+ * previous page were consumed; set `prefetch` to request pages ahead.
+ *
+ * @param {function} request - Makes an API request, e.g. `Service#request`.
+ * @param {object} reqOpts - Request options for the first page.
+ * @param {object=} options - Configuration object.
+ * @param {string=} options.itemsKey - The response field holding the items.
+ * @param {number=} options.maxResults - The maximum number of items.
+ * @param {number=} options.pageSize - The number of items per page.
+ * @param {number=} options.prefetch - The number of pages to request ahead.
+ */
+export async function* paginate<T = ResponseBody>(
+  request: PageRequestFunction,
+  reqOpts: DecorateRequestOptions,
+  options: PaginateOptions = {},
+): AsyncGenerator<T, void, undefined> {
+  const itemsKey = options.itemsKey || 'items';
+  const maxResults =
+    typeof options.maxResults === 'number' ? options.maxResults : Infinity;
+  const prefetch = options.prefetch || 0;
+  const getItems = (body: ResponseBody) => (body && body[itemsKey]) || [];
+
+  // Pages which were requested but not consumed yet, in order.
+  const pages: Array<Promise<ResponseBody | null>> = [];
+  let lastPage: Promise<ResponseBody | null> | undefined;
+  let received = 0;
+  let results = 0;
+  let stopped = false;
+
+  const requestNextPage = async (pageToken?: string) => {
+    if (stopped || received >= maxResults) {
+      return null;
+    }
+
+    const qs = Object.assign({}, reqOpts.qs);
+    if (pageToken) {
+      qs.pageToken = pageToken;
+    }
+    if (options.pageSize) {
+      qs.pageSize = Math.min(options.pageSize, maxResults - received);
+    }
+
+    const body = await requestPage(request, Object.assign({}, reqOpts, {qs}));
+    received += getItems(body).length;
+    return body;
+  };
+
+  const enqueuePage = () => {
+    const page = lastPage
+      ? lastPage.then(body =>
+          body && body.nextPageToken
+            ? requestNextPage(body.nextPageToken)
+            : null,
+        )
+      : requestNextPage(reqOpts.qs && reqOpts.qs.pageToken);
+    // Errors are thrown once the consumer reaches the page.
+    page.catch(() => {});
+    pages.push(page);
+    lastPage = page;
+  };
+
+  try {
+    while (results < maxResults) {
+      while (pages.length <= prefetch) {
+        enqueuePage();
+      }
+
+      const body = await pages.shift()!;
+      if (!body) {
+        return;
+      }
+
+      for (const item of getItems(body)) {
+        if (results >= maxResults) {
+          return;
+        }
+        results++;
+        yield item;
+      }
+
+      if (!body.nextPageToken) {
+        return;
+      }
+    }
+  } finally {
+    // Prefetched pages which were not requested yet never will be.
+    stopped = true;
+  }
+}
+
+/**
+ * Create an object-mode stream of the items of a paged list method, emitting
+ * one item per `data` event. Unless `options.prefetch` is set, the next page
+ * is only requested once the consumer has read the items of the previous
+ * page. Destroying the stream stops the pagination without making further
+ * requests.
+ *
+ * @param {function} request - Makes an API request, e.g. `Service#request`.
+ * @param {object} reqOpts - Request options for the first page.
+ * @param {object=} options - See {@link paginate}.
+ * @return {Readable}
+ */
+export function createListStream(
+  request: PageRequestFunction,
+  reqOpts: DecorateRequestOptions,
+  options?: PaginateOptions,
+): Readable {
+  return Readable.from(paginate(request, reqOpts, options), {
+    objectMode: true,
+    // Buffer no more than a single item ahead of the consumer.
+    highWaterMark: 1,
+  });
+}
+
+/**
+ * Request a single page.
+ *
+ * @private
+ */
+function requestPage(
+  request: PageRequestFunction,
+  reqOpts: DecorateRequestOptions,
+): Promise<ResponseBody> {
+  return new Promise((resolve, reject) => {
+    request(reqOpts, (err, body) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(body);
+    });
+  });
+}
@@ -16,17 +16,21 @@
  * @module common/service-object
  */
 
-import {promisifyAll} from '@google-cloud/promisify';
 const arrify = require('arrify');
 import {EventEmitter} from 'events';
 import * as extend from 'extend';
+import {Readable} from 'stream';
 import * as r from 'teeny-request';
+import {isDeepStrictEqual} from 'util';
 
 import {StreamRequestOptions} from '.';
+import type {LongRunningOperation, Operation} from './operation';
+import {createListStream, paginate, PaginateOptions} from './paginator';
 import {
   ApiError,
   BodyResponseCallback,
   DecorateRequestOptions,
+  PreconditionFailedError,
   ResponseBody,
   util,
 } from './util';
@@ -47,18 +51,62 @@ export interface Interceptor {
   request(opts: r.Options): DecorateRequestOptions;
 }
 
-export type GetMetadataOptions = object;
+export interface AbortSignalOptions {
+  /**
+   * A signal which, when aborted, fails the request with the signal's reason
+   * (by default, an `AbortError`). Pending retries are cancelled; a request
+   * already in flight is abandoned and its response ignored.
+   */
+  signal?: AbortSignal;
+}
+
+export type GetMetadataOptions = {
+  /**
+   * Set to `false` to skip the metadata cache for this call. The fetched
+   * metadata still refreshes the cache.
+   */
+  cache?: boolean;
+
+  /**
+   * Only return these fields, sent as the `fields` system parameter. For
+   * example, `['name', 'labels']`.
+   */
+  fields?: string | string[];
+} & AbortSignalOptions &
+  object;
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type Metadata = any;
-export type MetadataResponse = [Metadata, r.Response];
-export type MetadataCallback = (
+/**
+ * A partial update of metadata of type `M`.
+ */
+export type MetadataPatch<M = Metadata> = M | Partial<M>;
+export type MetadataResponse<M = Metadata> = [M, r.Response];
+export type MetadataCallback<M = Metadata> = (
   err: Error | null,
-  metadata?: Metadata,
+  metadata?: M,
   apiResponse?: r.Response,
 ) => void;
 
-export type ExistsOptions = object;
+export interface MetadataChangedEvent<M = Metadata> {
+  /**
+   * The metadata before the change.
+   */
+  previous: M;
+
+  /**
+   * The metadata after the change.
+   */
+  current: M;
+
+  /**
+   * The dot-separated paths of the fields which were added, removed or
+   * changed, e.g. `labels.env`. Arrays are compared as a whole.
+   */
+  changedFields: string[];
+}
+
+export type ExistsOptions = AbortSignalOptions & object;
 export interface ExistsCallback {
   (err: Error | null, exists?: boolean): void;
 }
@@ -74,6 +122,13 @@ export interface ServiceObjectConfig {
    */
   createMethod?: Function;
 
+  /**
+   * Cache the results of `getMetadata` for this long, keyed by the query
+   * options. `setMetadata`, `delete` and custom methods other than `GET`
+   * invalidate the cache. (default: no caching)
+   */
+  metadataCacheTtlMs?: number;
+
   /**
    * The identifier of the object. For example, the name of a Storage bucket or
    * Pub/Sub topic.
@@ -97,6 +152,12 @@ export interface ServiceObjectConfig {
    */
   pollIntervalMs?: number;
 
+  /**
+   * For long running operations, how the delay between polls should grow.
+   * When set, `initialDelayMs` takes precedence over `pollIntervalMs`.
+   */
+  pollingConfig?: PollingConfig;
+
   /**
    * Override of projectId, used to allow access to resources in another project.
    * For example, a BigQuery dataset in another project to which the user has been
@@ -105,8 +166,136 @@ export interface ServiceObjectConfig {
   projectId?: string;
 }
 
+export interface PollingConfig {
+  /**
+   * The delay before the first re-poll. (default: `pollIntervalMs` or 500)
+   */
+  initialDelayMs?: number;
+
+  /**
+   * The factor the delay is multiplied by after every poll. (default: 1)
+   */
+  delayMultiplier?: number;
+
+  /**
+   * The upper bound for the delay between polls. (default: Infinity)
+   */
+  maxDelayMs?: number;
+
+  /**
+   * The fraction, between 0 and 1, by which each delay is randomly spread
+   * above or below its computed value. (default: 0)
+   */
+  jitter?: number;
+
+  /**
+   * The maximum time to wait for the operation to complete before an
+   * `OperationTimeoutError` is emitted. (default: no deadline)
+   */
+  totalTimeoutMs?: number;
+
+  /**
+   * The number of consecutive transient polling failures to tolerate before
+   * the error is emitted. (default: 3)
+   */
+  maxRetries?: number;
+
+  /**
+   * Decides whether a polling failure is transient. (default:
+   * `util.shouldRetryRequest`)
+   */
+  retryableErrorFn?: (err: ApiError) => boolean;
+
+  /**
+   * Use the API's `:wait` method, which blocks server-side until the
+   * operation is done, instead of client-side delays between polls. If a
+   * call returns before its timeout, the usual delay applies before the next
+   * one. Falls back to regular polling if the API doesn't support it.
+   * (default: false)
+   */
+  useWaitEndpoint?: boolean;
+
+  /**
+   * The longest the server should block on each `:wait` call.
+   * (default: 30000)
+   */
+  waitTimeoutMs?: number;
+}
+
 export interface Methods {
-  [methodName: string]: {reqOpts?: r.CoreOptions} | boolean;
+  [methodName: string]: MethodConfig | boolean;
+}
+
+export interface MethodConfig {
+  /**
+   * Default request options for this method.
+   */
+  reqOpts?: r.CoreOptions;
+
+  /**
+   * For `create`, `delete`, `setMetadata` and custom methods, recognize
+   * long-running operation responses and return an `Operation` in place of
+   * the response body. For `create`, this is the API response `createMethod`
+   * passes after the instance.
+   */
+  longRunning?: boolean | LongRunningMethodConfig;
+
+  /**
+   * For custom methods, the HTTP method. (default: "POST")
+   */
+  method?: string;
+
+  /**
+   * For custom methods, the URI relative to the object, e.g.
+   * `:testIamPermissions`. (default: the object itself)
+   */
+  uri?: string;
+
+  /**
+   * For custom methods, maps the options of a call to the request body. By
+   * default, the options are sent as the body, or as the query string of
+   * `GET` and `DELETE` requests.
+   */
+  bodyFn?: (options: object) => ResponseBody;
+
+  /**
+   * For custom methods, maps the response body to the result of a call.
+   * (default: the response body)
+   */
+  responseFn?: (body: ResponseBody) => unknown;
+}
+
+/**
+ * A method generated from a custom entry of `ServiceObjectConfig.methods`.
+ */
+export interface CustomMethod<R = ResponseBody, O = object> {
+  (options?: O & AbortSignalOptions): Promise<CustomMethodResponse<R>>;
+  (options: O & AbortSignalOptions, callback: CustomMethodCallback<R>): void;
+  (callback: CustomMethodCallback<R>): void;
+}
+export type CustomMethodResponse<R = ResponseBody> = [R, r.Response];
+export interface CustomMethodCallback<R = ResponseBody> {
+  (err: Error | null, result?: R, apiResponse?: r.Response): void;
+}
+
+export interface LongRunningMethodConfig {
+  /**
+   * Wait for the operation to complete and return its `response` payload
+   * instead of the `Operation`. (default: false)
+   */
+  waitForCompletion?: boolean;
+}
+
+interface LongRunningResult {
+  /**
+   * The `Operation`, or its `response` if it was waited on.
+   */
+  result: Operation | ResponseBody;
+
+  /**
+   * Whether the operation was waited on.
+   */
+  done: boolean;
 }
 
 export interface InstanceResponseCallback<T> {
@@ -114,7 +303,7 @@ export interface InstanceResponseCallback<T> {
 }
 
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
-export interface CreateOptions {}
+export interface CreateOptions extends AbortSignalOptions {}
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type CreateResponse<T> = any[];
 export interface CreateCallback<T> {
@@ -122,7 +311,9 @@ export interface CreateCallback<T> {
   (err: ApiError | null, instance?: T | null, ...args: any[]): void;
 }
 
-export type DeleteOptions = {ignoreNotFound?: boolean} & object;
+export type DeleteOptions = {ignoreNotFound?: boolean} & AbortSignalOptions &
+  object;
+export type DeleteResponse = [ResponseBody, r.Response?];
 export interface DeleteCallback {
   (err: Error | null, apiResponse?: r.Response): void;
 }
@@ -133,15 +324,240 @@ export interface GetConfig {
    */
   autoCreate?: boolean;
 }
-type GetOrCreateOptions = GetConfig & CreateOptions;
+type GetOrCreateOptions = GetConfig & CreateOptions & AbortSignalOptions;
 export type GetResponse<T> = [T, r.Response];
 
 export interface ResponseCallback {
   (err?: Error | null, apiResponse?: r.Response): void;
 }
 
-export type SetMetadataResponse = [Metadata];
-export type SetMetadataOptions = object;
+export type SetMetadataResponse<M = Metadata> = [M, r.Response?];
+export type SetMetadataOptions = {
+  /**
+   * Only apply the change if the object was not modified since it was read.
+   * `true` sends the `etag` of the cached `metadata` in an `If-Match` header;
+   * a string is sent as the etag instead. If the etag doesn't match, the
+   * request fails with a `PreconditionFailedError`.
+   */
+  ifMatch?: boolean | string;
+
+  /**
+   * The fields to update, sent as the `updateMask` query parameter. `true`
+   * computes the mask from the fields of the patch which differ from the
+   * cached `metadata`; if none do, no request is made.
+   */
+  updateMask?: boolean | string | string[];
+} & AbortSignalOptions &
+  object;
+
+export interface UpdateMetadataOptions extends AbortSignalOptions {
+  /**
+   * How many times to retry the read-modify-write cycle when the object was
+   * modified concurrently. (default: 3)
+   */
+  maxRetries?: number;
+}
+export interface UpdateMetadataFunction<M = Metadata> {
+  (metadata: M): MetadataPatch<M> | Promise<MetadataPatch<M>>;
+}
+
+/**
+ * Default behavior: Retry a conflicting `updateMetadata` 3 times.
+ *
+ * @const {number}
+ * @private
+ */
+const UPDATE_METADATA_MAX_RETRIES_DEFAULT = 3;
+
+interface CachedMetadata {
+  metadata: Metadata;
+  apiResponse?: r.Response;
+  expires: number;
+}
+
+/**
+ * Build the metadata cache key of a set of query options, independent of the
+ * order of their keys.
+ *
+ * @private
+ */
+function getMetadataCacheKey(options: object): string {
+  return JSON.stringify(
+    Object.keys(options)
+      .sort()
+      .map(key => [key, options[key as keyof typeof options]]),
+  );
+}
+
+/**
+ * Whether a metadata value is an object whose fields can be diffed.
+ *
+ * @private
+ */
+function isPlainObject(value: Metadata): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * List the paths of the fields which differ between two metadata objects.
+ *
+ * @private
+ */
+function getChangedFields(
+  previous: Metadata,
+  current: Metadata,
+  prefix = '',
+): string[] {
+  if (!isPlainObject(previous) || !isPlainObject(current)) {
+    if (prefix) {
+      return isDeepStrictEqual(previous, current) ? [] : [prefix];
+    }
+    // Compare the top level as objects, so every field is listed.
+    previous = isPlainObject(previous) ? previous : {};
+    current = isPlainObject(current) ? current : {};
+  }
+
+  const keys = new Set(Object.keys(previous).concat(Object.keys(current)));
+  const changedFields: string[] = [];
+  keys.forEach(key => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (!(key in previous) || !(key in current)) {
+      changedFields.push(path);
+      return;
+    }
+    changedFields.push(...getChangedFields(previous[key], current[key], path));
+  });
+  return changedFields;
+}
+
+/**
+ * List the paths of the fields of a patch which differ from the metadata, for
+ * use as an update mask.
+ *
+ * @private
+ */
+function getUpdateMask(
+  metadata: Metadata,
+  patch: Metadata,
+  prefix = '',
+): string[] {
+  const updateMask: string[] = [];
+  Object.keys(patch).forEach(key => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const value = isPlainObject(metadata) ? metadata[key] : undefined;
+    if (isPlainObject(value) && isPlainObject(patch[key])) {
+      updateMask.push(...getUpdateMask(value, patch[key], path));
+    } else if (!isDeepStrictEqual(value, patch[key])) {
+      updateMask.push(path);
+    }
+  });
+  return updateMask;
+}
+
+/**
+ * Whether a response body is a `google.longrunning.Operation`.
+ *
+ * @private
+ */
+function isLongRunningOperation(body: ResponseBody): boolean {
+  if (!body || typeof body !== 'object' || typeof body.name !== 'string') {
+    return false;
+  }
+  const operationKeys = ['name', 'metadata', 'done', 'error', 'response'];
+  const keys = Object.keys(body);
+  return keys.length > 1 && keys.every(key => operationKeys.indexOf(key) > -1);
+}
+
+/**
+ * Call a method through its callback form and resolve with the arguments
+ * passed to the callback. Methods which subclasses may override are called
+ * this way, as overrides are not required to support promises.
+ *
+ * Callbacks are expected to take `(err, instanceOrMetadata, apiResponse)`. An
+ * API response passed along with an error is kept as the error's `response`,
+ * if it doesn't have one.
+ *
+ * @private
+ *
+ * @param {function} call - Calls the method with the given callback.
+ * @param {AbortSignal=} signal - When aborted, the promise is rejected with
+ *     the signal's reason and the callback's late result is ignored.
+ */
+function fromCallback<R extends unknown[]>(
+  call: (callback: (err: Error | null, ...response: R) => void) => void,
+  signal?: AbortSignal,
+): Promise<R> {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal!.reason);
+    signal?.addEventListener('abort', onAbort, {once: true});
+
+    call((err, ...response) => {
+      signal?.removeEventListener('abort', onAbort);
+      if (!err) {
+        resolve(response);
+        return;
+      }
+      const apiResponse = response[1];
+      if (!(err as ApiError).response && apiResponse) {
+        (err as ApiError).response = apiResponse as r.Response;
+      }
+      setErrorResponse(err, response);
+      reject(err);
+    });
+  });
+}
+
+/**
+ * The arguments passed to a callback along with an error, such as the parsed
+ * error body and the API response, by error. Async implementations reject with
+ * the error alone; their callback forms pass these arguments on.
+ *
+ * @private
+ */
+const errorResponses = new WeakMap<object, unknown[]>();
+
+/**
+ * Keep the arguments passed to a callback along with an error.
+ *
+ * @private
+ */
+function setErrorResponse(err: unknown, response: unknown[]) {
+  if (err && typeof err === 'object') {
+    errorResponses.set(err, response);
+  }
+}
+
+/**
+ * Get the arguments passed to a callback along with an error. Defaults to no
+ * body and the error's `response`.
+ *
+ * @private
+ */
+function getErrorResponse(err: unknown): unknown[] {
+  const response =
+    err && typeof err === 'object' ? errorResponses.get(err) : undefined;
+  return response || [undefined, (err as ApiError | undefined)?.response];
+}
+
+/**
+ * Find the absolute base URL of the API a `ServiceObject` belongs to, by
+ * walking up its parents to the service. Requests to absolute URLs are not
+ * prefixed with the URIs of the parents or the service's project.
+ *
+ * @private
+ */
+function getApiRoot(parent: ServiceObjectParent): string {
+  let root: ServiceObjectParent = parent;
+  while (root instanceof ServiceObject) {
+    root = root.parent;
+  }
+  const baseUrl = (root as {baseUrl?: string}).baseUrl;
+  return baseUrl && baseUrl.indexOf('http') === 0 ? baseUrl : '';
+}
 
 /**
  * ServiceObject is a base class, meant to be inherited from by a "service
@@ -153,14 +569,20 @@ export type SetMetadataOptions = object;
  * By inheriting from this class, a service object will be extended with these
  * shared behaviors. Note that any method can be overridden when the service
  * object requires specific behavior.
+ *
+ * @template T - The type of the service object instance.
+ * @template M - The type of the object's metadata.
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-class ServiceObject<T = any> extends EventEmitter {
-  metadata: Metadata;
+class ServiceObject<T = any, M = Metadata> extends EventEmitter {
+  metadata: M;
   baseUrl?: string;
   parent: ServiceObjectParent;
   id?: string;
   pollIntervalMs?: number;
+  pollingConfig?: PollingConfig;
+  metadataCacheTtlMs?: number;
+  private metadataCache_: Map<string, CachedMetadata>;
   private createMethod?: Function;
   protected methods: Methods;
   interceptors: Interceptor[];
@@ -181,12 +603,19 @@ class ServiceObject<T = any> extends EventEmitter {
    * @param {object} config.methods[].reqOpts - Default request options for this
    *     particular method. A common use case is when `setMetadata` requires a
    *     `PUT` method to override the default `PATCH`.
+   * @param {string=} config.methods[].method - The HTTP method of a custom
+   *     method, i.e. one which isn't inherited. Custom methods are generated
+   *     with callback and promise forms.
+   * @param {string=} config.methods[].uri - The URI of a custom method,
+   *     relative to the object.
    * @param {object} config.parent - The parent service instance. For example, an
    *     instance of Storage if the object is Bucket.
+   * @param {number=} config.metadataCacheTtlMs - How long to cache the results
+   *     of `getMetadata`.
    */
   constructor(config: ServiceObjectConfig) {
     super();
-    this.metadata = {};
+    this.metadata = {} as M;
     this.baseUrl = config.baseUrl;
     this.parent = config.parent; // Parent class.
     this.id = config.id; // Name or ID (e.g. dataset ID, bucket name, etc).
@@ -194,6 +623,9 @@ class ServiceObject<T = any> extends EventEmitter {
     this.methods = config.methods || {};
     this.interceptors = [];
     this.pollIntervalMs = config.pollIntervalMs;
+    this.pollingConfig = config.pollingConfig;
+    this.metadataCacheTtlMs = config.metadataCacheTtlMs;
+    this.metadataCache_ = new Map();
     this.projectId = config.projectId;
 
     if (config.methods) {
@@ -203,10 +635,16 @@ class ServiceObject<T = any> extends EventEmitter {
       Object.getOwnPropertyNames(ServiceObject.prototype)
         .filter(methodName => {
           return (
-            // All ServiceObjects need `request` and `getRequestInterceptors`.
+            // All ServiceObjects need `request`, `paginate`,
+            // `createListStream` and `getRequestInterceptors`, and the
+            // internal helpers of the inherited methods.
             // clang-format off
             !/^request/.test(methodName) &&
+            !/^paginate|^createListStream/.test(methodName) &&
             !/^getRequestInterceptors/.test(methodName) &&
+            !/^handleLongRunning_|^createOperation_/.test(methodName) &&
+            !/^replaceMetadata_/.test(methodName) &&
+            !/Async$/.test(methodName) &&
             // clang-format on
             // The ServiceObject didn't redefine the method.
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -221,6 +659,37 @@ class ServiceObject<T = any> extends EventEmitter {
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           (this as any)[methodName] = undefined;
         });
+
+      // Generate the custom methods, i.e. the configured methods which
+      // aren't inherited.
+      Object.keys(config.methods)
+        .filter(methodName => {
+          return (
+            typeof config.methods![methodName] === 'object' &&
+            !(methodName in this)
+          );
+        })
+        .forEach(methodName => {
+          const customMethod = (
+            optionsOrCallback?: object | CustomMethodCallback,
+            cb?: CustomMethodCallback,
+          ): Promise<CustomMethodResponse> | void => {
+            const [options, callback] = util.maybeOptionsOrCallback<
+              object,
+              CustomMethodCallback
+            >(optionsOrCallback, cb);
+
+            if (!callback) {
+              return this.customMethodAsync(methodName, options);
+            }
+            this.customMethodAsync(methodName, options).then(
+              ([result, apiResponse]) => callback(null, result, apiResponse),
+              err => callback(err, undefined, err.response),
+            );
+          };
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          (this as any)[methodName] = customMethod as CustomMethod;
+        });
     }
   }
 
@@ -228,10 +697,13 @@ class ServiceObject<T = any> extends EventEmitter {
    * Create the object.
    *
    * @param {object=} options - Configuration object.
+   * @param {AbortSignal=} options.signal - A signal to stop waiting for the
+   *     object to be created. The result of `createMethod` is then ignored.
    * @param {function} callback - The callback function.
    * @param {?error} callback.err - An error returned while making this request.
    * @param {object} callback.instance - The instance.
-   * @param {object} callback.apiResponse - The full API response.
+   * @param {object} callback.apiResponse - The full API response, or an
+   *     `Operation` if `create` is configured as long-running.
    */
   create(options?: CreateOptions): Promise<CreateResponse<T>>;
   create(options: CreateOptions, callback: CreateCallback<T>): void;
@@ -240,32 +712,56 @@ class ServiceObject<T = any> extends EventEmitter {
     optionsOrCallback?: CreateOptions | CreateCallback<T>,
     callback?: CreateCallback<T>,
   ): void | Promise<CreateResponse<T>> {
-    // eslint-disable-next-line @typescript-eslint/no-this-alias
-    const self = this;
-    const args = [this.id] as Array<{}>;
-
     if (typeof optionsOrCallback === 'function') {
       callback = optionsOrCallback as CreateCallback<T>;
     }
+    const options =
+      typeof optionsOrCallback === 'object' ? optionsOrCallback : undefined;
+
+    if (!callback) {
+      return this.createAsync(options);
+    }
+    this.createAsync(options).then(
+      response => (callback as Function)(null, ...response),
+      err => callback!(err, null, err.response),
+    );
+  }
 
-    if (typeof optionsOrCallback === 'object') {
-      args.push(optionsOrCallback);
+  protected async createAsync(
+    options?: CreateOptions,
+  ): Promise<CreateResponse<T>> {
+    const signal = options && options.signal;
+    if (signal) {
+      // The signal is handled here; `createMethod` only gets its own options.
+      options = Object.assign({}, options);
+      delete options.signal;
     }
 
-    // Wrap the callback to return *this* instance of the object, not the
-    // newly-created one.
-    // tslint: disable-next-line no-any
-    function onCreate(...args: [Error, ServiceObject<T>]) {
-      const [err, instance] = args;
-      if (!err) {
-        self.metadata = instance.metadata;
-        args[1] = self; // replace the created `instance` with this one.
+    const args = [this.id] as Array<{}>;
+    if (options && (!signal || Object.keys(options).length > 0)) {
+      args.push(options);
+    }
+
+    const [instance, ...rest] = await fromCallback<
+      [ServiceObject<T, M>, ...unknown[]]
+    >(callback => {
+      args.push(callback);
+      // eslint-disable-next-line prefer-spread
+      this.createMethod!.apply(null, args);
+    }, signal);
+
+    // Until the operation completes, the object doesn't exist yet.
+    const longRunning = await this.handleLongRunning_('create', rest[0]);
+    if (longRunning) {
+      if (longRunning.done) {
+        this.replaceMetadata_(longRunning.result as M);
       }
-      callback!(...(args as {} as [Error, T]));
+      return [this, longRunning.result, ...rest.slice(1)];
     }
-    args.push(onCreate);
-    // eslint-disable-next-line prefer-spread
-    this.createMethod!.apply(null, args);
+
+    // Return *this* instance of the object, not the newly-created one.
+    this.replaceMetadata_(instance.metadata);
+    return [this, ...rest];
   }
 
   /**
@@ -275,21 +771,38 @@ class ServiceObject<T = any> extends EventEmitter {
    * @param {?error} callback.err - An error returned while making this request.
    * @param {object} callback.apiResponse - The full API response.
    */
-  delete(options?: DeleteOptions): Promise<[r.Response]>;
+  delete(options?: DeleteOptions): Promise<DeleteResponse>;
   delete(options: DeleteOptions, callback: DeleteCallback): void;
   delete(callback: DeleteCallback): void;
   delete(
     optionsOrCallback?: DeleteOptions | DeleteCallback,
     cb?: DeleteCallback,
-  ): Promise<[r.Response]> | void {
+  ): Promise<DeleteResponse> | void {
     const [options, callback] = util.maybeOptionsOrCallback<
       DeleteOptions,
       DeleteCallback
     >(optionsOrCallback, cb);
 
+    if (!callback) {
+      return this.deleteAsync(options);
+    }
+    this.deleteAsync(options).then(
+      response => (callback as Function)(null, ...response),
+      callback,
+    );
+  }
+
+  protected async deleteAsync(
+    options: DeleteOptions = {},
+  ): Promise<DeleteResponse> {
+    options = Object.assign({}, options);
+
     const ignoreNotFound = options.ignoreNotFound!;
     delete options.ignoreNotFound;
 
+    const signal = options.signal;
+    delete options.signal;
+
     const methodConfig =
       (typeof this.methods.delete === 'object' && this.methods.delete) || {};
 
@@ -302,23 +815,25 @@ class ServiceObject<T = any> extends EventEmitter {
       methodConfig.reqOpts,
       {
         qs: options,
+        signal,
       },
     );
 
-    // The `request` method may have been overridden to hold any special
-    // behavior. Ensure we call the original `request` method.
-    ServiceObject.prototype.request.call(
-      this,
-      reqOpts,
-      (err: ApiError | null, ...args) => {
-        if (err) {
-          if (err.code === 404 && ignoreNotFound) {
-            err = null;
-          }
-        }
-        callback(err, ...(args as any));
-      },
-    );
+    let body: ResponseBody;
+    let res: r.Response;
+    try {
+      [body, res] = await this.requestOriginal_(reqOpts);
+    } catch (err) {
+      if ((err as ApiError).code === 404 && ignoreNotFound) {
+        return getErrorResponse(err) as DeleteResponse;
+      }
+      throw err;
+    } finally {
+      this.metadataCache_.clear();
+    }
+
+    const longRunning = await this.handleLongRunning_('delete', body);
+    return [longRunning ? longRunning.result : body, res];
   }
 
   /**
@@ -340,17 +855,25 @@ class ServiceObject<T = any> extends EventEmitter {
       ExistsCallback
     >(optionsOrCallback, cb);
 
-    this.get(options, err => {
-      if (err) {
-        if (err.code === 404) {
-          callback!(null, false);
-        } else {
-          callback!(err);
-        }
-        return;
+    if (!callback) {
+      return this.existsAsync(options);
+    }
+    this.existsAsync(options).then(
+      ([exists]) => callback(null, exists),
+      callback,
+    );
+  }
+
+  protected async existsAsync(options: ExistsOptions = {}): Promise<[boolean]> {
+    try {
+      await fromCallback(callback => this.get(options, callback));
+      return [true];
+    } catch (err) {
+      if ((err as ApiError).code === 404) {
+        return [false];
       }
-      callback!(null, true);
-    });
+      throw err;
+    }
   }
 
   /**
@@ -372,72 +895,121 @@ class ServiceObject<T = any> extends EventEmitter {
     optionsOrCallback?: GetOrCreateOptions | InstanceResponseCallback<T>,
     cb?: InstanceResponseCallback<T>,
   ): Promise<GetResponse<T>> | void {
-    // eslint-disable-next-line @typescript-eslint/no-this-alias
-    const self = this;
-
-    const [opts, callback] = util.maybeOptionsOrCallback<
+    const [options, callback] = util.maybeOptionsOrCallback<
       GetOrCreateOptions,
       InstanceResponseCallback<T>
     >(optionsOrCallback, cb);
+
+    if (!callback) {
+      return this.getAsync(options);
+    }
+    this.getAsync(options).then(
+      ([instance, apiResponse]) => callback(null, instance, apiResponse),
+      err => callback(err, null, getErrorResponse(err)[1] as r.Response),
+    );
+  }
+
+  protected async getAsync(
+    opts: GetOrCreateOptions = {},
+  ): Promise<GetResponse<T>> {
     const options = Object.assign({}, opts);
 
     const autoCreate = options.autoCreate && typeof this.create === 'function';
     delete options.autoCreate;
 
-    function onCreate(
-      err: ApiError | null,
-      instance: T,
-      apiResponse: r.Response,
-    ) {
-      if (err) {
-        if (err.code === 409) {
-          self.get(options, callback!);
-          return;
-        }
-        callback!(err, null, apiResponse);
-        return;
+    try {
+      const [metadata] = await fromCallback(callback =>
+        this.getMetadata(options, callback),
+      );
+      return [this as {} as T, metadata as r.Response];
+    } catch (err) {
+      if ((err as ApiError).code !== 404 || !autoCreate) {
+        // As on success, the metadata is passed on as the API response.
+        setErrorResponse(err, [null, getErrorResponse(err)[0]]);
+        throw err;
       }
-      callback!(null, instance, apiResponse);
     }
 
-    this.getMetadata(options, (err: ApiError | null, metadata) => {
-      if (err) {
-        if (err.code === 404 && autoCreate) {
-          const args: Array<Function | GetOrCreateOptions> = [];
-          if (Object.keys(options).length > 0) {
-            args.push(options);
-          }
-          args.push(onCreate);
-          void self.create(...args);
-          return;
-        }
-        callback!(err, null, metadata as r.Response);
-        return;
+    try {
+      const [instance, apiResponse] = await fromCallback<
+        [T | null | undefined, r.Response]
+      >(callback =>
+        Object.keys(options).length > 0
+          ? this.create(options, callback)
+          : this.create(callback),
+      );
+      return [instance as T, apiResponse];
+    } catch (err) {
+      if ((err as ApiError).code === 409) {
+        return fromCallback<GetResponse<T>>(callback =>
+          this.get(options, callback as InstanceResponseCallback<T>),
+        );
       }
-      callback!(null, self as {} as T, metadata as r.Response);
-    });
+      throw err;
+    }
   }
 
   /**
-   * Get the metadata of this object.
+   * Get the metadata of this object. If `metadataCacheTtlMs` is configured,
+   * a cached result for the same options is returned while it is fresh.
    *
+   * @param {object=} options - Configuration options, sent as query options.
+   * @param {boolean=} options.cache - Set to `false` to skip the cache.
+   * @param {string|string[]=} options.fields - Only return these fields.
+   * @param {AbortSignal=} options.signal - A signal to cancel the request.
    * @param {function} callback - The callback function.
    * @param {?error} callback.err - An error returned while making this request.
    * @param {object} callback.metadata - The metadata for this object.
    * @param {object} callback.apiResponse - The full API response.
    */
-  getMetadata(options?: GetMetadataOptions): Promise<MetadataResponse>;
-  getMetadata(options: GetMetadataOptions, callback: MetadataCallback): void;
-  getMetadata(callback: MetadataCallback): void;
+  getMetadata(options?: GetMetadataOptions): Promise<MetadataResponse<M>>;
+  getMetadata(options: GetMetadataOptions, callback: MetadataCallback<M>): void;
+  getMetadata(callback: MetadataCallback<M>): void;
   getMetadata(
-    optionsOrCallback: GetMetadataOptions | MetadataCallback,
-    cb?: MetadataCallback,
-  ): Promise<MetadataResponse> | void {
+    optionsOrCallback?: GetMetadataOptions | MetadataCallback<M>,
+    cb?: MetadataCallback<M>,
+  ): Promise<MetadataResponse<M>> | void {
     const [options, callback] = util.maybeOptionsOrCallback<
       GetMetadataOptions,
-      MetadataCallback
+      MetadataCallback<M>
     >(optionsOrCallback, cb);
 
+    if (!callback) {
+      return this.getMetadataAsync(options);
+    }
+    this.getMetadataAsync(options).then(
+      ([metadata, apiResponse]) => callback(null, metadata, apiResponse),
+      err => {
+        const [metadata, apiResponse] = getErrorResponse(err);
+        callback(err, metadata as M, apiResponse as r.Response);
+      },
+    );
+  }
+
+  protected async getMetadataAsync(
+    opts: GetMetadataOptions = {},
+  ): Promise<MetadataResponse<M>> {
+    const options = Object.assign({}, opts);
+
+    const useCache = options.cache !== false;
+    delete options.cache;
+
+    const signal = options.signal;
+    delete options.signal;
+
+    if (Array.isArray(options.fields)) {
+      options.fields = options.fields.join(',');
+    }
+
+    const cacheKey = this.metadataCacheTtlMs
+      ? getMetadataCacheKey(options)
+      : undefined;
+    const cached = cacheKey && this.metadataCache_.get(cacheKey);
+    if (useCache && cached && cached.expires > Date.now()) {
+      this.replaceMetadata_(cached.metadata);
+      return [this.metadata, cached.apiResponse!];
+    }
+
     const methodConfig =
       (typeof this.methods.getMetadata === 'object' &&
         this.methods.getMetadata) ||
@@ -450,19 +1022,78 @@ class ServiceObject<T = any> extends EventEmitter {
       methodConfig.reqOpts,
       {
         qs: options,
+        signal,
       },
     );
 
-    // The `request` method may have been overridden to hold any special
-    // behavior. Ensure we call the original `request` method.
-    ServiceObject.prototype.request.call(
-      this,
-      reqOpts,
-      (err: Error | null, body?: ResponseBody, res?: r.Response) => {
-        this.metadata = body;
-        callback!(err, this.metadata, res);
+    const [body, res] = await this.requestOriginal_(reqOpts);
+    this.replaceMetadata_(body);
+    if (cacheKey) {
+      this.metadataCache_.set(cacheKey, {
+        metadata: body,
+        apiResponse: res,
+        expires: Date.now() + this.metadataCacheTtlMs!,
+      });
+    }
+    return [this.metadata, res];
+  }
+
+  /**
+   * Call a custom method, as configured in `methods`.
+   *
+   * @private
+   *
+   * @param {string} methodName - The name of the custom method.
+   * @param {object=} options - The options of the call.
+   * @param {AbortSignal=} options.signal - A signal to cancel the request.
+   */
+  protected async customMethodAsync(
+    methodName: string,
+    opts: AbortSignalOptions = {},
+  ): Promise<CustomMethodResponse> {
+    const options = Object.assign({}, opts);
+
+    const signal = options.signal;
+    delete options.signal;
+
+    const methodConfig = this.methods[methodName] as MethodConfig;
+    const method = (methodConfig.method || 'POST').toUpperCase();
+    const hasBody = method !== 'GET' && method !== 'DELETE';
+
+    const reqOpts = extend(
+      true,
+      {
+        method,
+        uri: methodConfig.uri || '',
       },
+      methodConfig.reqOpts,
+      hasBody
+        ? {
+            json: methodConfig.bodyFn ? methodConfig.bodyFn(options) : options,
+          }
+        : {qs: options},
+      {signal},
     );
+
+    let body: ResponseBody;
+    let res: r.Response;
+    try {
+      [body, res] = await this.requestOriginal_(reqOpts);
+    } finally {
+      if (method !== 'GET') {
+        // The method may have changed the object.
+        this.metadataCache_.clear();
+      }
+    }
+
+    const longRunning = await this.handleLongRunning_(methodName, body);
+    if (longRunning) {
+      return [longRunning.result, res];
+    }
+    return [
+      methodConfig.responseFn ? methodConfig.responseFn(body) : body,
+      res,
+    ];
   }
 
   /**
@@ -481,29 +1112,76 @@ class ServiceObject<T = any> extends EventEmitter {
    *
    * @param {object} metadata - The metadata to set on this object.
    * @param {object=} options - Configuration options.
+   * @param {boolean|string=} options.ifMatch - Require the object's etag to
+   *     match.
+   * @param {boolean|string|string[]=} options.updateMask - The fields to
+   *     update, or `true` to compute them from the cached metadata.
+   * @param {AbortSignal=} options.signal - A signal to cancel the request.
    * @param {function=} callback - The callback function.
    * @param {?error} callback.err - An error returned while making this request.
    * @param {object} callback.apiResponse - The full API response.
    */
   setMetadata(
-    metadata: Metadata,
+    metadata: MetadataPatch<M>,
     options?: SetMetadataOptions,
-  ): Promise<SetMetadataResponse>;
-  setMetadata(metadata: Metadata, callback: MetadataCallback): void;
+  ): Promise<SetMetadataResponse<M>>;
+  setMetadata(metadata: MetadataPatch<M>, callback: MetadataCallback<M>): void;
   setMetadata(
-    metadata: Metadata,
+    metadata: MetadataPatch<M>,
     options: SetMetadataOptions,
-    callback: MetadataCallback,
+    callback: MetadataCallback<M>,
   ): void;
   setMetadata(
-    metadata: Metadata,
-    optionsOrCallback: SetMetadataOptions | MetadataCallback,
-    cb?: MetadataCallback,
-  ): Promise<SetMetadataResponse> | void {
+    metadata: MetadataPatch<M>,
+    optionsOrCallback?: SetMetadataOptions | MetadataCallback<M>,
+    cb?: MetadataCallback<M>,
+  ): Promise<SetMetadataResponse<M>> | void {
     const [options, callback] = util.maybeOptionsOrCallback<
       SetMetadataOptions,
-      MetadataCallback
+      MetadataCallback<M>
     >(optionsOrCallback, cb);
+
+    if (!callback) {
+      return this.setMetadataAsync(metadata, options);
+    }
+    this.setMetadataAsync(metadata, options).then(
+      ([metadata, apiResponse]) => callback(null, metadata, apiResponse),
+      err => callback(err, undefined, err.response),
+    );
+  }
+
+  protected async setMetadataAsync(
+    metadata: MetadataPatch<M>,
+    opts: SetMetadataOptions = {},
+  ): Promise<SetMetadataResponse<M>> {
+    const options = Object.assign({}, opts);
+
+    const ifMatch = options.ifMatch;
+    delete options.ifMatch;
+
+    const signal = options.signal;
+    delete options.signal;
+
+    const cachedMetadata: Metadata = this.metadata;
+    const etag =
+      ifMatch === true ? cachedMetadata && cachedMetadata.etag : ifMatch;
+    if (ifMatch === true && !etag) {
+      throw new Error(
+        'The cached metadata has no etag. Call `getMetadata` before setting metadata with `ifMatch`.',
+      );
+    }
+
+    if (options.updateMask === true) {
+      options.updateMask = getUpdateMask(this.metadata, metadata);
+      if (options.updateMask.length === 0) {
+        // Nothing would change.
+        return [this.metadata];
+      }
+    }
+    if (Array.isArray(options.updateMask)) {
+      options.updateMask = options.updateMask.join(',');
+    }
+
     const methodConfig =
       (typeof this.methods.setMetadata === 'object' &&
         this.methods.setMetadata) ||
@@ -518,23 +1196,204 @@ class ServiceObject<T = any> extends EventEmitter {
       },
       methodConfig.reqOpts,
       {
+        headers: etag ? {'If-Match': etag} : undefined,
         json: metadata,
         qs: options,
+        signal,
       },
     );
 
-    // The `request` method may have been overridden to hold any special
-    // behavior. Ensure we call the original `request` method.
-    ServiceObject.prototype.request.call(
-      this,
-      reqOpts,
-      (err: Error | null, body?: ResponseBody, res?: r.Response) => {
-        this.metadata = body;
-        callback!(err, this.metadata, res);
-      },
+    let body: ResponseBody;
+    let res: r.Response;
+    try {
+      [body, res] = await this.requestOriginal_(reqOpts);
+    } catch (err) {
+      const code = (err as ApiError).code;
+      const sentPrecondition = !!(reqOpts.headers || {})['If-Match'];
+      if (sentPrecondition && (code === 409 || code === 412)) {
+        throw new PreconditionFailedError(err as ApiError);
+      }
+      throw err;
+    } finally {
+      // Even a failed request may have changed the object, or found the
+      // cached metadata to be stale.
+      this.metadataCache_.clear();
+    }
+
+    const longRunning = await this.handleLongRunning_('setMetadata', body);
+    if (longRunning) {
+      if (longRunning.done) {
+        this.replaceMetadata_(longRunning.result as M);
+      }
+      return [longRunning.result as M, res];
+    }
+    this.replaceMetadata_(body);
+    return [this.metadata, res];
+  }
+
+  /**
+   * Update the metadata of this object with a read-modify-write cycle. The
+   * current metadata is fetched and passed to `fn`, and the patch it returns
+   * is set with an `ifMatch` precondition. If the object was modified in the
+   * meantime, the cycle is retried with the new metadata.
+   *
+   * @param {function} fn - Returns the metadata to set, given the current
+   *     metadata. May return a promise.
+   * @param {object=} options - Configuration options.
+   * @param {number=} options.maxRetries - How many times to retry on
+   *     conflicts.
+   * @param {AbortSignal=} options.signal - A signal to cancel the requests.
+   * @param {function=} callback - The callback function.
+   * @param {?error} callback.err - An error returned while making this request.
+   * @param {object} callback.metadata - The updated metadata.
+   * @param {object} callback.apiResponse - The full API response.
+   */
+  updateMetadata(
+    fn: UpdateMetadataFunction<M>,
+    options?: UpdateMetadataOptions,
+  ): Promise<SetMetadataResponse<M>>;
+  updateMetadata(
+    fn: UpdateMetadataFunction<M>,
+    callback: MetadataCallback<M>,
+  ): void;
+  updateMetadata(
+    fn: UpdateMetadataFunction<M>,
+    options: UpdateMetadataOptions,
+    callback: MetadataCallback<M>,
+  ): void;
+  updateMetadata(
+    fn: UpdateMetadataFunction<M>,
+    optionsOrCallback?: UpdateMetadataOptions | MetadataCallback<M>,
+    cb?: MetadataCallback<M>,
+  ): Promise<SetMetadataResponse<M>> | void {
+    const [options, callback] = util.maybeOptionsOrCallback<
+      UpdateMetadataOptions,
+      MetadataCallback<M>
+    >(optionsOrCallback, cb);
+    const signalOptions: AbortSignalOptions =
+      options && options.signal ? {signal: options.signal} : {};
+    const maxRetries =
+      options && typeof options.maxRetries === 'number'
+        ? options.maxRetries
+        : UPDATE_METADATA_MAX_RETRIES_DEFAULT;
+
+    const update = async (): Promise<SetMetadataResponse<M>> => {
+      for (let retries = 0; ; retries++) {
+        // Skip the cache, as a cached etag may already be stale.
+        const [metadata] = await fromCallback<MetadataResponse<M>>(callback =>
+          this.getMetadata(
+            Object.assign({cache: false}, signalOptions),
+            callback as MetadataCallback<M>,
+          ),
+        );
+        const patch = await fn(metadata);
+        try {
+          return await fromCallback<SetMetadataResponse<M>>(callback =>
+            this.setMetadata(
+              patch,
+              Object.assign({ifMatch: true}, signalOptions),
+              callback as MetadataCallback<M>,
+            ),
+          );
+        } catch (err) {
+          if (
+            !(err instanceof PreconditionFailedError) ||
+            retries >= maxRetries
+          ) {
+            throw err;
+          }
+        }
+      }
+    };
+
+    if (!callback) {
+      return update();
+    }
+    update().then(
+      response => (callback as Function)(null, ...response),
+      callback,
     );
   }
 
+  /**
+   * Replace the cached `metadata`, emitting `metadataChanged` if any field
+   * changed.
+   *
+   * @private
+   *
+   * @param {object} metadata - The new metadata.
+   */
+  protected replaceMetadata_(metadata: M): void {
+    const previous = this.metadata;
+    this.metadata = metadata;
+    const changedFields = getChangedFields(previous, metadata);
+    if (changedFields.length > 0) {
+      this.emit('metadataChanged', {
+        previous,
+        current: metadata,
+        changedFields,
+      } as MetadataChangedEvent<M>);
+    }
+  }
+
+  /**
+   * If the method is configured as long-running and the response body is an
+   * operation, wrap it in an `Operation` and optionally wait for it to
+   * complete.
+   *
+   * @private
+   *
+   * @param {string} methodName - The name of the method which was called.
+   * @param {object} body - The response body.
+   * @return {Promise<?object>} The `Operation`, or the operation's `response`
+   *     if it was waited on, or `null` if the response is not an operation.
+   */
+  protected async handleLongRunning_(
+    methodName: string,
+    body: ResponseBody,
+  ): Promise<LongRunningResult | null> {
+    const methodConfig = this.methods[methodName];
+    const longRunning =
+      typeof methodConfig === 'object' && methodConfig.longRunning;
+    if (!longRunning || !isLongRunningOperation(body)) {
+      return null;
+    }
+
+    const operation = this.createOperation_(body);
+    if (typeof longRunning !== 'object' || !longRunning.waitForCompletion) {
+      return {result: operation, done: false};
+    }
+
+    return {result: await operation.result(), done: true};
+  }
+
+  /**
+   * Create an `Operation` from a long-running operation response body.
+   * Override this when the API's operations live elsewhere.
+   *
+   * @private
+   *
+   * @param {object} body - The long-running operation response body.
+   * @return {Operation}
+   */
+  protected createOperation_(body: LongRunningOperation): Operation {
+    // Required lazily, as `Operation` extends `ServiceObject`.
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const {Operation} = require('./operation');
+    const operation: Operation = new Operation({
+      parent: this.parent,
+      // Operation names are relative to the API root, e.g.
+      // `projects/p/locations/l/operations/o`, not to this object or the
+      // service's project.
+      baseUrl: getApiRoot(this.parent),
+      id: body.name,
+      pollIntervalMs: this.pollIntervalMs,
+      pollingConfig: this.pollingConfig,
+    });
+    operation.metadata = body;
+    return operation;
+  }
+
   /**
    * Make an authenticated API request.
    *
@@ -604,7 +1463,78 @@ class ServiceObject<T = any> extends EventEmitter {
     reqOpts: DecorateRequestOptions,
     callback?: BodyResponseCallback,
   ): void | Promise<RequestResponse> {
-    this.request_(reqOpts, callback!);
+    if (!callback) {
+      return new Promise((resolve, reject) => {
+        this.request_(reqOpts, (err, body, res) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          resolve([body, res!]);
+        });
+      });
+    }
+    this.request_(reqOpts, callback);
+  }
+
+  /**
+   * Make an authenticated API request through the original `request` method.
+   * It may have been overridden to hold any special behavior, which the
+   * inherited methods shouldn't depend on.
+   *
+   * @private
+   *
+   * @param {object} reqOpts - Request options that are passed to `request`.
+   */
+  private requestOriginal_(
+    reqOpts: DecorateRequestOptions,
+  ): Promise<RequestResponse> {
+    return new Promise((resolve, reject) => {
+      ServiceObject.prototype.request.call(this, reqOpts, (err, body, res) => {
+        if (err) {
+          setErrorResponse(err, [body, res]);
+          reject(err);
+          return;
+        }
+        resolve([body, res!]);
+      });
+    });
+  }
+
+  /**
+   * Iterate over the items of a paged list method through `request`.
+   *
+   * @param {object} reqOpts - Request options for the first page.
+   * @param {string} reqOpts.uri - A URI relative to the baseUrl.
+   * @param {object=} options - See {@link module:common/paginator.paginate}.
+   */
+  paginate<I = ResponseBody>(
+    reqOpts: DecorateRequestOptions,
+    options?: PaginateOptions,
+  ): AsyncGenerator<I, void, undefined> {
+    return paginate<I>(
+      (reqOpts, callback) => this.request(reqOpts, callback),
+      reqOpts,
+      options,
+    );
+  }
+
+  /**
+   * Create an object-mode stream of the items of a paged list method.
+   *
+   * @param {object} reqOpts - Request options for the first page.
+   * @param {string} reqOpts.uri - A URI relative to the baseUrl.
+   * @param {object=} options - See {@link module:common/paginator.paginate}.
+   */
+  createListStream(
+    reqOpts: DecorateRequestOptions,
+    options?: PaginateOptions,
+  ): Readable {
+    return createListStream(
+      (reqOpts, callback) => this.request(reqOpts, callback),
+      reqOpts,
+      options,
+    );
   }
 
   /**
@@ -619,6 +1549,4 @@ class ServiceObject<T = any> extends EventEmitter {
   }
 }
 
-promisifyAll(ServiceObject, {exclude: ['getRequestInterceptors']});
-
 export {ServiceObject};
@@ -19,14 +19,17 @@
 const arrify = require('arrify');
 import * as extend from 'extend';
 import {AuthClient, GoogleAuth, GoogleAuthOptions} from 'google-auth-library';
+import {Readable} from 'stream';
 import * as r from 'teeny-request';
 
+import {createListStream, paginate, PaginateOptions} from './paginator';
 import {Interceptor} from './service-object';
 import {
   BodyResponseCallback,
   DecorateRequestOptions,
   MakeAuthenticatedRequest,
   PackageJson,
+  ResponseBody,
   util,
 } from './util';
 
@@ -273,6 +276,42 @@ export class Service {
     Service.prototype.request_.call(this, reqOpts, callback);
   }
 
+  /**
+   * Iterate over the items of a paged list method through `request`.
+   *
+   * @param {object} reqOpts - Request options for the first page.
+   * @param {string} reqOpts.uri - A URI relative to the baseUrl.
+   * @param {object=} options - See {@link module:common/paginator.paginate}.
+   */
+  paginate<I = ResponseBody>(
+    reqOpts: DecorateRequestOptions,
+    options?: PaginateOptions,
+  ): AsyncGenerator<I, void, undefined> {
+    return paginate<I>(
+      (reqOpts, callback) => this.request(reqOpts, callback),
+      reqOpts,
+      options,
+    );
+  }
+
+  /**
+   * Create an object-mode stream of the items of a paged list method.
+   *
+   * @param {object} reqOpts - Request options for the first page.
+   * @param {string} reqOpts.uri - A URI relative to the baseUrl.
+   * @param {object=} options - See {@link module:common/paginator.paginate}.
+   */
+  createListStream(
+    reqOpts: DecorateRequestOptions,
+    options?: PaginateOptions,
+  ): Readable {
+    return createListStream(
+      (reqOpts, callback) => this.request(reqOpts, callback),
+      reqOpts,
+      options,
+    );
+  }
+
   /**
    * Make an authenticated API request.
    *
@@ -229,6 +229,15 @@ export interface DecorateRequestOptions extends r.CoreOptions {
   interceptors_?: Interceptor[];
   shouldReturnStream?: boolean;
   projectId?: string;
+
+  /**
+   * A signal which, when aborted, cancels authentication and pending retries,
+   * failing the request with the signal's reason (by default, an
+   * `AbortError`). Streaming requests are destroyed. A callback request
+   * already in flight can't be cancelled by the transport, so it is abandoned
+   * instead: it runs to completion, and its response is ignored.
+   */
+  signal?: AbortSignal;
 }
 
 export interface ParsedHttpResponseBody {
@@ -310,6 +319,22 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * Custom error type for requests which failed because a precondition, such as
+ * an `If-Match` etag, was not met. The object was modified concurrently.
+ *
+ * @param {ApiError} err - The original error.
+ */
+export class PreconditionFailedError extends ApiError {
+  constructor(err: ApiError) {
+    super(err.message);
+    this.name = 'PreconditionFailedError';
+    this.code = err.code;
+    this.errors = err.errors;
+    this.response = err.response;
+  }
+}
+
 /**
  * Custom error type for partial errors returned from the API.
  *
@@ -334,6 +359,54 @@ export interface BodyResponseCallback {
   (err: Error | ApiError | null, body?: ResponseBody, res?: r.Response): void;
 }
 
+/**
+ * Wrap a callback so it is called with the signal's reason as soon as the
+ * signal is aborted, and never after that.
+ *
+ * @private
+ *
+ * @param {AbortSignal=} signal - The signal to listen to.
+ * @param {function} callback - The callback function.
+ * @param {function=} onAbort - Cleanup to run when the signal is aborted.
+ * @return {function} The wrapped callback.
+ */
+function abortableCallback(
+  signal: AbortSignal | undefined,
+  callback: BodyResponseCallback,
+  onAbort?: () => void,
+): BodyResponseCallback {
+  if (!signal) {
+    return callback;
+  }
+
+  let settled = false;
+  const abort = () => {
+    if (settled) {
+      return;
+    }
+    settled = true;
+    if (onAbort) {
+      onAbort();
+    }
+    callback(signal.reason);
+  };
+
+  if (signal.aborted) {
+    process.nextTick(abort);
+  } else {
+    signal.addEventListener('abort', abort, {once: true});
+  }
+
+  return (...args) => {
+    signal.removeEventListener('abort', abort);
+    if (settled) {
+      return;
+    }
+    settled = true;
+    callback(...args);
+  };
+}
+
 export interface RetryOptions {
   retryDelayMultiplier?: number;
   totalTimeout?: number;
@@ -369,6 +442,7 @@ export interface MakeRequestConfig {
 export class Util {
   ApiError = ApiError;
   PartialFailureError = PartialFailureError;
+  PreconditionFailedError = PreconditionFailedError;
 
   /**
    * No op.
@@ -652,10 +726,25 @@ export class Util {
         reqConfig.stream = stream;
       }
 
+      const signal = reqOpts.signal;
       const options =
         typeof optionsOrCallback === 'object' ? optionsOrCallback : undefined;
       const callback =
-        typeof optionsOrCallback === 'function' ? optionsOrCallback : undefined;
+        typeof optionsOrCallback === 'function'
+          ? abortableCallback(signal, optionsOrCallback)
+          : undefined;
+
+      if (stream! && signal) {
+        const destroyStream = () => stream.destroy(signal.reason);
+        if (signal.aborted) {
+          process.nextTick(destroyStream);
+        } else {
+          signal.addEventListener('abort', destroyStream, {once: true});
+          stream.once('close', () =>
+            signal.removeEventListener('abort', destroyStream),
+          );
+        }
+      }
 
       async function setProjectId() {
         projectId = await authClient.getProjectId();
@@ -665,6 +754,14 @@ export class Util {
         err: Error | null,
         authenticatedReqOpts?: DecorateRequestOptions,
       ) => {
+        if (signal && signal.aborted) {
+          // The callback or stream was already failed with the abort reason.
+          if (options && options.onAuthenticated) {
+            options.onAuthenticated(signal.reason);
+          }
+          return;
+        }
+
         const authLibraryError = err;
         const autoAuthFailed =
           err &&
@@ -884,10 +981,36 @@ export class Util {
       options.retries = reqOpts.maxRetries;
     }
 
+    const signal = reqOpts.signal;
+
     if (!config.stream) {
-      return retryRequest(reqOpts, options, (err, response, body) => {
-        util.handleResp(err, response as {} as r.Response, body, callback!);
+      if (signal) {
+        // Don't start any attempt, including pending retries, once aborted.
+        const request = options.request as Function;
+        options.request = ((...args: Array<{}>) =>
+          signal.aborted
+            ? undefined
+            : request(...args)) as {} as typeof options.request;
+      }
+
+      // `abort()` stops pending retries. teeny-request can't cancel a callback
+      // request in flight, so that one is only abandoned.
+      // Assigned below, as the signal may be aborted while it's being created.
+      // eslint-disable-next-line prefer-const
+      let retryRequestHandle: Abortable | undefined;
+      const onResponse = abortableCallback(signal, callback, () => {
+        if (retryRequestHandle) {
+          retryRequestHandle.abort();
+        }
       });
+      retryRequestHandle = retryRequest(
+        reqOpts,
+        options,
+        (err, response, body) => {
+          util.handleResp(err, response as {} as r.Response, body, onResponse);
+        },
+      );
+      return retryRequestHandle;
     }
     const dup = config.stream as AbortableDuplex;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -910,6 +1033,22 @@ export class Util {
       .on('complete', dup.emit.bind(dup, 'complete'));
 
     dup.abort = requestStream.abort;
+
+    if (signal) {
+      const abort = () => {
+        if (requestStream.abort) {
+          requestStream.abort();
+        }
+        dup.destroy(signal.reason);
+      };
+      if (signal.aborted) {
+        process.nextTick(abort);
+      } else {
+        signal.addEventListener('abort', abort, {once: true});
+        dup.once('close', () => signal.removeEventListener('abort', abort));
+      }
+    }
+
     return dup;
   }
 
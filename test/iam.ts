@@ -0,0 +1,315 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import * as r from 'teeny-request';
+import * as sinon from 'sinon';
+
+import {Service} from '../src';
+import {Iam, Policy} from '../src/iam';
+import {ServiceObject} from '../src/service-object';
+import {
+  ApiError,
+  DecorateRequestOptions,
+  PreconditionFailedError,
+} from '../src/util';
+
+describe('Iam', () => {
+  const sandbox = sinon.createSandbox();
+  let serviceObject: ServiceObject;
+  let iam: Iam;
+  let requests: DecorateRequestOptions[];
+  let responses: Array<Error | [{}, r.Response]>;
+
+  beforeEach(() => {
+    serviceObject = new ServiceObject({
+      parent: {} as Service,
+      baseUrl: 'topics',
+      id: 'topic',
+    });
+    iam = new Iam(serviceObject);
+    requests = [];
+    responses = [];
+    sandbox
+      .stub(serviceObject, 'request')
+      .callsFake((reqOpts, callback?: Function) => {
+        requests.push(reqOpts);
+        const response = responses.shift()!;
+        if (response instanceof Error) {
+          callback!(response);
+          return;
+        }
+        callback!(null, ...response);
+      });
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  function conflict() {
+    const error = new ApiError('Concurrent policy changes.');
+    error.code = 409;
+    return error;
+  }
+
+  describe('instantiation', () => {
+    it('should localize the service object', () => {
+      assert.strictEqual(iam.serviceObject, serviceObject);
+    });
+
+    it('should request version 3 policies by default', () => {
+      assert.strictEqual(iam.requestedPolicyVersion, 3);
+    });
+
+    it('should allow overriding the policy version', () => {
+      const iam = new Iam(serviceObject, {requestedPolicyVersion: 1});
+      assert.strictEqual(iam.requestedPolicyVersion, 1);
+    });
+  });
+
+  describe('getPolicy', () => {
+    it('should make the correct request', async () => {
+      const policy = {etag: 'abc'};
+      const apiResponse = {} as r.Response;
+      responses.push([policy, apiResponse]);
+      const [policy_, apiResponse_] = await iam.getPolicy();
+      assert.strictEqual(requests[0].method, 'POST');
+      assert.strictEqual(requests[0].uri, ':getIamPolicy');
+      assert.deepStrictEqual(requests[0].json, {
+        options: {requestedPolicyVersion: 3},
+      });
+      assert.strictEqual(policy_, policy);
+      assert.strictEqual(apiResponse_, apiResponse);
+    });
+
+    it('should request the given policy version', async () => {
+      responses.push([{}, {} as r.Response]);
+      await iam.getPolicy({requestedPolicyVersion: 1});
+      assert.deepStrictEqual(requests[0].json, {
+        options: {requestedPolicyVersion: 1},
+      });
+    });
+
+    it('should call a callback-only request override', async () => {
+      const policy = {etag: 'abc'};
+      class CallbackServiceObject extends ServiceObject {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        request(...args: Array<{}>): any {
+          const callback = args.pop() as Function;
+          callback(null, policy, {} as r.Response);
+        }
+      }
+      const iam = new Iam(
+        new CallbackServiceObject({
+          parent: {} as Service,
+          baseUrl: 'topics',
+          id: 'topic',
+        }),
+      );
+      const [policy_] = await iam.getPolicy();
+      assert.strictEqual(policy_, policy);
+    });
+
+    it('should pass the signal in the request options', async () => {
+      const signal = new AbortController().signal;
+      responses.push([{}, {} as r.Response]);
+      await iam.getPolicy({signal});
+      assert.strictEqual(requests[0].signal, signal);
+    });
+
+    it('should execute callback with error & API response', done => {
+      const apiResponse = {} as r.Response;
+      const error = new ApiError({code: 403, response: apiResponse});
+      responses.push(error);
+      iam.getPolicy((err, policy, apiResponse_) => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(policy, undefined);
+        assert.strictEqual(apiResponse_, apiResponse);
+        done();
+      });
+    });
+  });
+
+  describe('setPolicy', () => {
+    it('should make the correct request', async () => {
+      const policy = {bindings: [{role: 'roles/viewer', members: ['a']}]};
+      const updatedPolicy = {};
+      responses.push([updatedPolicy, {} as r.Response]);
+      const [policy_] = await iam.setPolicy(policy);
+      assert.strictEqual(requests[0].method, 'POST');
+      assert.strictEqual(requests[0].uri, ':setIamPolicy');
+      assert.deepStrictEqual(requests[0].json, {policy});
+      assert.strictEqual(policy_, updatedPolicy);
+    });
+
+    it('should send policies with conditions as version 3', async () => {
+      const policy: Policy = {
+        version: 1,
+        bindings: [
+          {
+            role: 'roles/viewer',
+            members: ['a'],
+            condition: {expression: 'request.time < timestamp("2030-01-01")'},
+          },
+        ],
+      };
+      responses.push([{}, {} as r.Response]);
+      await iam.setPolicy(policy);
+      assert.strictEqual(requests[0].json.policy.version, 3);
+      assert.strictEqual(policy.version, 1);
+    });
+
+    it('should join a list of fields to update', async () => {
+      responses.push([{}, {} as r.Response]);
+      await iam.setPolicy({}, {updateMask: ['bindings', 'etag']});
+      assert.strictEqual(requests[0].json.updateMask, 'bindings,etag');
+    });
+
+    it('should return a PreconditionFailedError on conflicts', async () => {
+      responses.push(conflict());
+      await assert.rejects(
+        iam.setPolicy({etag: 'abc'}),
+        PreconditionFailedError,
+      );
+    });
+
+    it('should not return a PreconditionFailedError without an etag', async () => {
+      const error = conflict();
+      responses.push(error);
+      await assert.rejects(iam.setPolicy({}), error);
+    });
+
+    it('should accept a callback', done => {
+      const updatedPolicy = {};
+      responses.push([updatedPolicy, {} as r.Response]);
+      iam.setPolicy({}, (err, policy) => {
+        assert.ifError(err);
+        assert.strictEqual(policy, updatedPolicy);
+        done();
+      });
+    });
+  });
+
+  describe('testPermissions', () => {
+    it('should map each permission to whether it was granted', async () => {
+      const apiResponse = {} as r.Response;
+      responses.push([{permissions: ['a.get']}, apiResponse]);
+      const [permissions, apiResponse_] = await iam.testPermissions([
+        'a.get',
+        'a.delete',
+      ]);
+      assert.strictEqual(requests[0].method, 'POST');
+      assert.strictEqual(requests[0].uri, ':testIamPermissions');
+      assert.deepStrictEqual(requests[0].json, {
+        permissions: ['a.get', 'a.delete'],
+      });
+      assert.deepStrictEqual(permissions, {'a.get': true, 'a.delete': false});
+      assert.strictEqual(apiResponse_, apiResponse);
+    });
+
+    it('should accept a single permission', async () => {
+      responses.push([{}, {} as r.Response]);
+      const [permissions] = await iam.testPermissions('a.get');
+      assert.deepStrictEqual(requests[0].json, {permissions: ['a.get']});
+      assert.deepStrictEqual(permissions, {'a.get': false});
+    });
+
+    it('should accept a callback', done => {
+      responses.push([{permissions: ['a.get']}, {} as r.Response]);
+      iam.testPermissions('a.get', (err, permissions) => {
+        assert.ifError(err);
+        assert.deepStrictEqual(permissions, {'a.get': true});
+        done();
+      });
+    });
+  });
+
+  describe('updatePolicy', () => {
+    const addViewer = (policy: Policy) => {
+      policy.bindings = (policy.bindings || []).concat({
+        role: 'roles/viewer',
+        members: ['a'],
+      });
+      return policy;
+    };
+
+    it('should set the updated policy with the read etag', async () => {
+      const updatedPolicy = {};
+      responses.push([{etag: 'abc'}, {} as r.Response]);
+      responses.push([updatedPolicy, {} as r.Response]);
+      const [policy] = await iam.updatePolicy(policy =>
+        addViewer(Object.assign({}, policy, {etag: 'other'})),
+      );
+      assert.deepStrictEqual(requests[1].json, {
+        policy: {
+          etag: 'abc',
+          bindings: [{role: 'roles/viewer', members: ['a']}],
+        },
+      });
+      assert.strictEqual(policy, updatedPolicy);
+    });
+
+    it('should retry the cycle on conflicts', async () => {
+      responses.push([{etag: 'a'}, {} as r.Response], conflict());
+      responses.push([{etag: 'b'}, {} as r.Response], [{}, {} as r.Response]);
+      await iam.updatePolicy(addViewer);
+      assert.strictEqual(requests.length, 4);
+      assert.strictEqual(requests[3].json.policy.etag, 'b');
+    });
+
+    it('should give up after maxRetries', async () => {
+      responses.push([{etag: 'a'}, {} as r.Response], conflict());
+      responses.push([{etag: 'b'}, {} as r.Response], conflict());
+      await assert.rejects(
+        iam.updatePolicy(addViewer, {maxRetries: 1}),
+        PreconditionFailedError,
+      );
+      assert.strictEqual(requests.length, 4);
+    });
+
+    it('should not retry conflicts without an etag', async () => {
+      const error = conflict();
+      responses.push([{}, {} as r.Response], error);
+      await assert.rejects(iam.updatePolicy(addViewer), error);
+      assert.strictEqual(requests.length, 2);
+    });
+
+    it('should not retry other errors', async () => {
+      const error = new ApiError({code: 500, response: {} as r.Response});
+      responses.push([{etag: 'a'}, {} as r.Response], error);
+      await assert.rejects(iam.updatePolicy(addViewer), error);
+      assert.strictEqual(requests.length, 2);
+    });
+
+    it('should request the given policy version', async () => {
+      responses.push([{}, {} as r.Response], [{}, {} as r.Response]);
+      await iam.updatePolicy(addViewer, {requestedPolicyVersion: 1});
+      assert.deepStrictEqual(requests[0].json, {
+        options: {requestedPolicyVersion: 1},
+      });
+    });
+
+    it('should accept a callback', done => {
+      const updatedPolicy = {};
+      responses.push([{}, {} as r.Response], [updatedPolicy, {} as r.Response]);
+      iam.updatePolicy(addViewer, (err, policy) => {
+        assert.ifError(err);
+        assert.strictEqual(policy, updatedPolicy);
+        done();
+      });
+    });
+  });
+});
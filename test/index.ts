@@ -14,11 +14,22 @@
 
 import * as assert from 'assert';
 import {describe, it} from 'mocha';
-import {Operation, Service, ServiceObject, util} from '../src';
+import {
+  Iam,
+  Operation,
+  OperationPoller,
+  OperationsClient,
+  Service,
+  ServiceObject,
+  util,
+} from '../src';
 
 describe('common', () => {
   it('should correctly export the common modules', () => {
+    assert(Iam);
     assert(Operation);
+    assert(OperationPoller);
+    assert(OperationsClient);
     assert(Service);
     assert(ServiceObject);
     assert(util);
@@ -0,0 +1,205 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import * as sinon from 'sinon';
+
+import {Service} from '../src';
+import {Operation} from '../src/operation';
+import {OperationPoller} from '../src/operation-poller';
+import {MetadataCallback} from '../src/service-object';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const asAny = (o: {}) => o as any;
+
+describe('OperationPoller', () => {
+  const FAKE_SERVICE = {} as Service;
+  const sandbox = sinon.createSandbox();
+  let poller: OperationPoller;
+
+  function createOperation(id: string, pollsUntilDone = 1) {
+    const operation = new Operation({parent: FAKE_SERVICE, id});
+    let polls = 0;
+    asAny(operation).poll_ = sandbox.spy((callback: MetadataCallback) => {
+      setImmediate(() => {
+        if (++polls < pollsUntilDone) {
+          callback(null);
+          return;
+        }
+        callback(null, {name: id, done: true});
+      });
+    });
+    return operation;
+  }
+
+  beforeEach(() => {
+    poller = new OperationPoller({pollIntervalMs: 1});
+  });
+
+  afterEach(() => {
+    poller.close();
+    sandbox.restore();
+  });
+
+  describe('instantiation', () => {
+    it('should set defaults', () => {
+      const poller = new OperationPoller();
+      assert.strictEqual(poller.maxConcurrentPolls, 10);
+      assert.strictEqual(poller.pollIntervalMs, 1000);
+    });
+
+    it('should localize the options', () => {
+      const poller = new OperationPoller({
+        maxConcurrentPolls: 2,
+        pollIntervalMs: 50,
+      });
+      assert.strictEqual(poller.maxConcurrentPolls, 2);
+      assert.strictEqual(poller.pollIntervalMs, 50);
+    });
+  });
+
+  describe('add', () => {
+    it('should resolve with the completed metadata', async () => {
+      const operation = createOperation('a', 3);
+      const metadata = await poller.add(operation);
+      assert.deepStrictEqual(metadata, {name: 'a', done: true});
+      assert.strictEqual(asAny(operation).poll_.callCount, 3);
+      assert.strictEqual(poller.size, 0);
+    });
+
+    it('should return the same promise for the same operation', async () => {
+      const operation = createOperation('a');
+      const promise = poller.add(operation);
+      assert.strictEqual(poller.add(operation), promise);
+      assert.strictEqual(poller.size, 1);
+      await promise;
+    });
+
+    it('should reject with the polling error', async () => {
+      const error = new Error('Error.');
+      const operation = new Operation({parent: FAKE_SERVICE, id: 'a'});
+      asAny(operation).poll_ = (callback: MetadataCallback) => callback(error);
+      await assert.rejects(poller.add(operation), error);
+      assert.strictEqual(poller.size, 0);
+      assert.strictEqual(operation.state, 'failed');
+    });
+
+    it('should not start the operation polling loop', async () => {
+      const operation = createOperation('a');
+      await poller.add(operation);
+      assert.strictEqual(operation.hasActiveListeners, false);
+    });
+
+    it('should share polls with the operation listeners', async () => {
+      const operation = createOperation('a');
+      let completeEvents = 0;
+      operation.on('complete', () => completeEvents++);
+      const [metadata] = await Promise.all([
+        poller.add(operation),
+        operation.promise(),
+      ]);
+      assert.deepStrictEqual(metadata, {name: 'a', done: true});
+      assert.strictEqual(asAny(operation).poll_.callCount, 1);
+      assert.strictEqual(completeEvents, 1);
+    });
+
+    it('should finish the operation', async () => {
+      const operation = createOperation('a');
+      await poller.add(operation);
+      assert.strictEqual(operation.state, 'complete');
+      const [metadata] = await operation.promise();
+      assert.deepStrictEqual(metadata, {name: 'a', done: true});
+      assert.strictEqual(asAny(operation).poll_.callCount, 1);
+    });
+  });
+
+  describe('remove', () => {
+    it('should stop polling the operation', async () => {
+      const removed = createOperation('a', Infinity);
+      const operation = createOperation('b', 3);
+      const promise = poller.add(removed);
+      poller.remove(removed);
+      await assert.rejects(promise, /removed from the poller/);
+      await poller.add(operation);
+      assert.strictEqual(asAny(removed).poll_.callCount, 0);
+    });
+  });
+
+  describe('close', () => {
+    it('should stop polling all operations', async () => {
+      const operation = createOperation('a', Infinity);
+      const promise = poller.add(operation);
+      poller.close();
+      assert.strictEqual(poller.size, 0);
+      await assert.rejects(promise, /poller was closed/);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      assert.strictEqual(asAny(operation).poll_.callCount, 0);
+    });
+  });
+
+  describe('waitAll', () => {
+    it('should resolve with all metadata in order', async () => {
+      const operations = [
+        createOperation('a', 3),
+        createOperation('b', 1),
+        createOperation('c', 2),
+      ];
+      const results = await poller.waitAll(operations);
+      assert.deepStrictEqual(
+        results.map(metadata => metadata.name),
+        ['a', 'b', 'c'],
+      );
+    });
+
+    it('should cap the number of concurrent polls', async () => {
+      poller.maxConcurrentPolls = 2;
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const operations = ['a', 'b', 'c', 'd', 'e'].map(id => {
+        const operation = new Operation({parent: FAKE_SERVICE, id});
+        asAny(operation).poll_ = (callback: MetadataCallback) => {
+          maxInFlight = Math.max(maxInFlight, ++inFlight);
+          setImmediate(() => {
+            inFlight--;
+            callback(null, {done: true});
+          });
+        };
+        return operation;
+      });
+      await poller.waitAll(operations);
+      assert.strictEqual(maxInFlight, 2);
+    });
+
+    it('should reject when the poller is closed', async () => {
+      const promise = poller.waitAll([
+        createOperation('a', Infinity),
+        createOperation('b', Infinity),
+      ]);
+      poller.close();
+      await assert.rejects(promise, /poller was closed/);
+    });
+  });
+
+  describe('waitAny', () => {
+    it('should resolve with the first completed operation', async () => {
+      const slow = createOperation('a', 5);
+      const fast = createOperation('b', 2);
+      const [metadata, operation] = await poller.waitAny([slow, fast]);
+      assert.strictEqual(operation, fast);
+      assert.strictEqual(metadata.name, 'b');
+      assert.strictEqual(poller.size, 1);
+    });
+  });
+});
@@ -17,13 +17,13 @@ import {describe, it, beforeEach, afterEach} from 'mocha';
 import * as sinon from 'sinon';
 
 import {Service} from '../src';
-import {Operation} from '../src/operation';
+import {Operation, OperationTimeoutError} from '../src/operation';
 import {
   Metadata,
   ServiceObject,
   ServiceObjectConfig,
 } from '../src/service-object';
-import {util} from '../src/util';
+import {ApiError, util} from '../src/util';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const asAny = (o: {}) => o as any;
@@ -77,6 +77,32 @@ describe('Operation', () => {
       assert.strictEqual(operation.hasActiveListeners, false);
     });
 
+    it('should start in the idle state', () => {
+      assert.strictEqual(operation.state, 'idle');
+    });
+
+    it('should leave the metadata untyped by default', () => {
+      class Job extends Operation {
+        getState(): string {
+          return this.metadata.status.state;
+        }
+      }
+      const job = new Job({parent: FAKE_SERVICE, id: OPERATION_ID});
+      job.metadata = {status: {state: 'DONE'}};
+      assert.strictEqual(job.getState(), 'DONE');
+    });
+
+    it('should type the metadata if its fields are typed', () => {
+      const operation = new Operation<{}, {progress: number}>({
+        parent: FAKE_SERVICE,
+        id: OPERATION_ID,
+      });
+      operation.metadata = {name: OPERATION_ID, metadata: {progress: 50}};
+      const progress: number | undefined =
+        operation.metadata.metadata?.progress;
+      assert.strictEqual(progress, 50);
+    });
+
     it('should call listenForEvents_', () => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const stub = sandbox.stub(Operation.prototype as any, 'listenForEvents_');
@@ -85,6 +111,55 @@ describe('Operation', () => {
     });
   });
 
+  describe('toJSON', () => {
+    it('should serialize the operation state', () => {
+      const op = new Operation({
+        parent: FAKE_SERVICE,
+        id: OPERATION_ID,
+        baseUrl: 'base-url',
+        projectId: 'project-id',
+        pollIntervalMs: 1000,
+        pollingConfig: {delayMultiplier: 2},
+      });
+      asAny(op).deadline_ = 1234;
+      assert.deepStrictEqual(JSON.parse(JSON.stringify(op)), {
+        id: OPERATION_ID,
+        baseUrl: 'base-url',
+        projectId: 'project-id',
+        pollIntervalMs: 1000,
+        pollingConfig: {delayMultiplier: 2},
+        deadline: 1234,
+      });
+    });
+  });
+
+  describe('fromJSON', () => {
+    it('should rebuild the operation', () => {
+      const json = {
+        id: OPERATION_ID,
+        baseUrl: 'base-url',
+        projectId: 'project-id',
+        pollIntervalMs: 1000,
+        pollingConfig: {delayMultiplier: 2},
+        deadline: 1234,
+      };
+      const op = Operation.fromJSON(json, FAKE_SERVICE);
+      assert(op instanceof Operation);
+      assert.strictEqual(op.parent, FAKE_SERVICE);
+      assert.deepStrictEqual(op.toJSON(), json);
+      assert.deepStrictEqual(
+        asAny(op).methods,
+        asAny(new Operation({parent: FAKE_SERVICE, id: OPERATION_ID})).methods,
+      );
+    });
+
+    it('should accept a JSON string', () => {
+      const op = Operation.fromJSON(JSON.stringify(operation), FAKE_SERVICE);
+      assert.strictEqual(op.id, OPERATION_ID);
+      assert.strictEqual(op.baseUrl, '');
+    });
+  });
+
   describe('promise', () => {
     beforeEach(() => {
       asAny(operation).startPolling_ = () => Promise.resolve();
@@ -105,6 +180,57 @@ describe('Operation', () => {
       );
     });
 
+    it('should reject with the reason when aborted', async () => {
+      const controller = new AbortController();
+      const promise = operation.promise({signal: controller.signal});
+      controller.abort();
+      await assert.rejects(promise, {name: 'AbortError'});
+      assert.strictEqual(operation.completeListeners, 0);
+      assert.strictEqual(operation.hasActiveListeners, false);
+    });
+
+    it('should reject immediately if already aborted', async () => {
+      const reason = new Error('aborted');
+      const controller = new AbortController();
+      controller.abort(reason);
+      await assert.rejects(
+        operation.promise({signal: controller.signal}),
+        reason,
+      );
+      assert.strictEqual(operation.completeListeners, 0);
+    });
+
+    it('should reject with OperationTimeoutError after the timeout', async () => {
+      const clock = sandbox.useFakeTimers({
+        toFake: ['setTimeout', 'clearTimeout'],
+      });
+      const metadata = {done: false};
+      operation.metadata = metadata;
+      const promise = operation.promise({timeout: 1000});
+      const other = operation.promise();
+      clock.tick(1000);
+      await assert.rejects(promise, (err: OperationTimeoutError) => {
+        assert(err instanceof OperationTimeoutError);
+        assert.strictEqual(err.metadata, metadata);
+        return true;
+      });
+      assert.strictEqual(operation.completeListeners, 1);
+      assert.strictEqual(asAny(operation).deadline_, undefined);
+
+      operation.emit('complete', metadata);
+      assert.deepStrictEqual(await other, [metadata]);
+    });
+
+    it('should clear the timeout once settled', async () => {
+      const clock = sandbox.useFakeTimers({
+        toFake: ['setTimeout', 'clearTimeout'],
+      });
+      const promise = operation.promise({timeout: 1000});
+      operation.emit('complete', {});
+      await promise;
+      assert.strictEqual(clock.countTimers(), 0);
+    });
+
     it('should resolve the promise on complete', () => {
       const metadata = {};
 
@@ -118,6 +244,166 @@ describe('Operation', () => {
     });
   });
 
+  describe('result', () => {
+    it('should resolve with the response payload', async () => {
+      const response = {a: 'b'};
+      sandbox.stub(operation, 'promise').resolves([{done: true, response}]);
+      assert.strictEqual(await operation.result(), response);
+    });
+
+    it('should pass options to promise', async () => {
+      const options = {timeout: 1000};
+      const stub = sandbox.stub(operation, 'promise').resolves([{done: true}]);
+      await operation.result(options);
+      assert.strictEqual(stub.firstCall.args[0], options);
+    });
+
+    it('should reject with an ApiError built from the status', async () => {
+      const status = {code: 1, message: 'Operation was cancelled.'};
+      sandbox.stub(operation, 'promise').rejects(status);
+      await assert.rejects(operation.result(), (err: ApiError) => {
+        assert(err instanceof ApiError);
+        assert.strictEqual(err.code, status.code);
+        assert.strictEqual(err.message, status.message);
+        return true;
+      });
+    });
+
+    it('should pass other errors through', async () => {
+      const error = new Error('Error.');
+      sandbox.stub(operation, 'promise').rejects(error);
+      await assert.rejects(operation.result(), error);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should make the correct API request', done => {
+      sandbox.stub(operation, 'request').callsFake((reqOpts, callback) => {
+        assert.deepStrictEqual(reqOpts, {method: 'POST', uri: ':cancel'});
+        callback!(null, {}, asAny({}));
+      });
+      operation.cancel(done);
+    });
+
+    it('should return the error and apiResponse', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      sandbox
+        .stub(operation, 'request')
+        .callsArgWith(1, error, null, apiResponse);
+      operation.cancel((err, resp) => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(resp, apiResponse);
+        done();
+      });
+    });
+
+    it('should return a promise', async () => {
+      const apiResponse = {};
+      sandbox.stub(operation, 'request').callsArgWith(1, null, {}, apiResponse);
+      const [resp] = await operation.cancel();
+      assert.strictEqual(resp, apiResponse);
+    });
+  });
+
+  describe('pollOnce', () => {
+    let getMetadataStub: sinon.SinonStub;
+
+    beforeEach(() => {
+      getMetadataStub = sandbox
+        .stub(operation, 'getMetadata')
+        .callsArgWith(0, null, {done: false});
+    });
+
+    it('should resolve with null if not done', async () => {
+      assert.strictEqual(await operation.pollOnce(), null);
+      assert.strictEqual(operation.state, 'idle');
+      assert.strictEqual(operation.hasActiveListeners, false);
+    });
+
+    it('should complete the operation once done', async () => {
+      const apiResponse = {done: true};
+      getMetadataStub.callsArgWith(0, null, apiResponse);
+      assert.strictEqual(await operation.pollOnce(), apiResponse);
+      assert.strictEqual(operation.state, 'complete');
+      const [metadata] = await operation.promise();
+      assert.strictEqual(metadata, apiResponse);
+      assert.strictEqual(await operation.pollOnce(), apiResponse);
+      assert.strictEqual(getMetadataStub.callCount, 1);
+    });
+
+    it('should share a poll in flight with the polling loop', async () => {
+      const callbacks: Function[] = [];
+      getMetadataStub.resetBehavior();
+      getMetadataStub.callsFake(callback => callbacks.push(callback));
+      const apiResponse = {done: true};
+      operation.on('complete', util.noop);
+      const polled = operation.pollOnce();
+      assert.strictEqual(callbacks.length, 1);
+      callbacks[0](null, apiResponse);
+      assert.strictEqual(await polled, apiResponse);
+      assert.strictEqual(getMetadataStub.callCount, 1);
+      operation.removeListener('complete', util.noop);
+    });
+
+    it('should fail the operation on error', async () => {
+      const error = new Error('Error.');
+      getMetadataStub.callsArgWith(0, error);
+      await assert.rejects(operation.pollOnce(), error);
+      assert.strictEqual(operation.state, 'failed');
+      await assert.rejects(operation.promise(), error);
+      await assert.rejects(operation.pollOnce(), error);
+      assert.strictEqual(getMetadataStub.callCount, 1);
+    });
+  });
+
+  describe('asyncIterator', () => {
+    beforeEach(() => {
+      asAny(operation).startPolling_ = () => Promise.resolve();
+    });
+
+    it('should yield each snapshot until complete', async () => {
+      const snapshots = [{done: false}, {done: false, a: 1}, {done: true}];
+      setImmediate(() => {
+        snapshots.forEach(snapshot => operation.emit('progress', snapshot));
+        operation.emit('complete', snapshots[2]);
+      });
+      const yielded: {}[] = [];
+      for await (const snapshot of operation) {
+        yielded.push(snapshot);
+      }
+      assert.deepStrictEqual(yielded, snapshots);
+      assert.strictEqual(operation.completeListeners, 0);
+    });
+
+    it('should throw the operation error', async () => {
+      const error = new Error('Error.');
+      const snapshot = {done: false};
+      setImmediate(() => {
+        operation.emit('progress', snapshot);
+        operation.emit('error', error);
+      });
+      const yielded: {}[] = [];
+      await assert.rejects(async () => {
+        for await (const snapshot of operation) {
+          yielded.push(snapshot);
+        }
+      }, error);
+      assert.deepStrictEqual(yielded, [snapshot]);
+      assert.strictEqual(operation.listenerCount('error'), 0);
+    });
+
+    it('should stop listening when the loop is exited early', async () => {
+      setImmediate(() => operation.emit('progress', {done: false}));
+      for await (const snapshot of operation) {
+        assert.deepStrictEqual(snapshot, {done: false});
+        break;
+      }
+      assert.strictEqual(operation.completeListeners, 0);
+      assert.strictEqual(operation.hasActiveListeners, false);
+    });
+  });
+
   describe('listenForEvents_', () => {
     beforeEach(() => {
       asAny(operation).startPolling_ = util.noop;
@@ -155,6 +441,121 @@ describe('Operation', () => {
     });
   });
 
+  describe('state machine', () => {
+    let clock: sinon.SinonFakeTimers;
+    let getMetadataStub: sinon.SinonStub;
+
+    beforeEach(() => {
+      clock = sandbox.useFakeTimers({toFake: ['setTimeout', 'clearTimeout']});
+      getMetadataStub = sandbox
+        .stub(operation, 'getMetadata')
+        .callsArgWith(0, null, {done: false});
+    });
+
+    const flush = () => new Promise(resolve => process.nextTick(resolve));
+
+    it('should move between idle and polling', async () => {
+      operation.on('complete', util.noop);
+      assert.strictEqual(operation.state, 'polling');
+      await flush();
+      operation.removeListener('complete', util.noop);
+      assert.strictEqual(operation.state, 'idle');
+    });
+
+    it('should not start a second loop when a listener is re-added', async () => {
+      operation.on('complete', util.noop);
+      await flush();
+      operation.removeListener('complete', util.noop);
+      operation.on('complete', util.noop);
+      await flush();
+      assert.strictEqual(getMetadataStub.callCount, 2);
+      await clock.tickAsync(500);
+      assert.strictEqual(getMetadataStub.callCount, 3);
+      await clock.tickAsync(500);
+      assert.strictEqual(getMetadataStub.callCount, 4);
+    });
+
+    it('should not start a second loop while a poll is in flight', async () => {
+      let respond: Function = util.noop;
+      getMetadataStub.callsFake(callback => (respond = callback));
+      operation.on('complete', util.noop);
+      operation.removeListener('complete', util.noop);
+      operation.on('complete', util.noop);
+      assert.strictEqual(getMetadataStub.callCount, 1);
+      respond(null, {done: false});
+      await flush();
+      assert.strictEqual(operation.state, 'polling');
+      await clock.tickAsync(500);
+      assert.strictEqual(getMetadataStub.callCount, 2);
+    });
+
+    it('should emit complete once and cache the result', async () => {
+      const apiResponse = {done: true};
+      getMetadataStub.callsArgWith(0, null, apiResponse);
+      const completeEvents: {}[] = [];
+      operation.on('complete', (metadata: {}) => completeEvents.push(metadata));
+      await flush();
+      assert.strictEqual(operation.state, 'complete');
+      operation.on('complete', (metadata: {}) => completeEvents.push(metadata));
+      await flush();
+      assert.deepStrictEqual(completeEvents, [apiResponse, apiResponse]);
+      assert.strictEqual(getMetadataStub.callCount, 1);
+    });
+
+    it('should resolve promise with the cached result', async () => {
+      const apiResponse = {done: true};
+      getMetadataStub.callsArgWith(0, null, apiResponse);
+      const [first] = await operation.promise();
+      const [second] = await operation.promise();
+      assert.strictEqual(first, apiResponse);
+      assert.strictEqual(second, apiResponse);
+      assert.strictEqual(getMetadataStub.callCount, 1);
+    });
+
+    it('should move to failed and replay the error', async () => {
+      const error = new Error('Error.');
+      getMetadataStub.callsArgWith(0, error);
+      await assert.rejects(operation.promise(), error);
+      assert.strictEqual(operation.state, 'failed');
+      await assert.rejects(operation.promise(), error);
+      assert.strictEqual(getMetadataStub.callCount, 1);
+    });
+
+    it('should emit a single complete event', async () => {
+      const callbacks: Function[] = [];
+      getMetadataStub.resetBehavior();
+      getMetadataStub.callsFake(callback => callbacks.push(callback));
+      let completeEvents = 0;
+      operation.on('complete', () => completeEvents++);
+      const polled = operation.pollOnce();
+      callbacks.forEach(callback => callback(null, {done: true}));
+      await polled;
+      await flush();
+      assert.strictEqual(completeEvents, 1);
+    });
+
+    it('should emit a single error event', async () => {
+      const error = new Error('Error.');
+      const callbacks: Function[] = [];
+      getMetadataStub.resetBehavior();
+      getMetadataStub.callsFake(callback => callbacks.push(callback));
+      let errorEvents = 0;
+      operation.on('complete', util.noop).on('error', () => errorEvents++);
+      const polled = operation.pollOnce();
+      callbacks.forEach(callback => callback(error));
+      await assert.rejects(polled, error);
+      await flush();
+      assert.strictEqual(errorEvents, 1);
+    });
+
+    it('should move to cancelled on a CANCELLED status', async () => {
+      const status = {code: 1, message: 'Cancelled.'};
+      getMetadataStub.callsArgWith(0, null, {done: true, error: status});
+      await assert.rejects(operation.promise(), (err: {}) => err === status);
+      assert.strictEqual(operation.state, 'cancelled');
+    });
+  });
+
   describe('poll_', () => {
     it('should call getMetdata', done => {
       asAny(operation).getMetadata = () => done();
@@ -185,6 +586,70 @@ describe('Operation', () => {
       });
     });
 
+    describe('transient error', () => {
+      const error = new ApiError('Error.');
+      error.code = 503;
+
+      it('should callback with no arguments', done => {
+        sandbox.stub(operation, 'getMetadata').callsArgWith(0, error);
+        asAny(operation).poll_((err: Error, resp: {}) => {
+          assert.ifError(err);
+          assert.strictEqual(resp, undefined);
+          done();
+        });
+      });
+
+      it('should callback with the error after maxRetries', () => {
+        const op = new Operation({
+          parent: FAKE_SERVICE,
+          id: OPERATION_ID,
+          pollingConfig: {maxRetries: 2},
+        });
+        sandbox.stub(op, 'getMetadata').callsArgWith(0, error);
+        const errors: Array<Error | null> = [];
+        [1, 2, 3].forEach(() => {
+          asAny(op).poll_((err: Error | null) => errors.push(err));
+        });
+        assert.deepStrictEqual(errors, [null, null, error]);
+      });
+
+      it('should reset the count after a successful poll', () => {
+        const op = new Operation({
+          parent: FAKE_SERVICE,
+          id: OPERATION_ID,
+          pollingConfig: {maxRetries: 1},
+        });
+        const stub = sandbox.stub(op, 'getMetadata');
+        stub.onCall(0).callsArgWith(0, error);
+        stub.onCall(1).callsArgWith(0, null, {done: false});
+        stub.onCall(2).callsArgWith(0, error);
+        const errors: Array<Error | null> = [];
+        [1, 2, 3].forEach(() => {
+          asAny(op).poll_((err: Error | null) => errors.push(err));
+        });
+        assert.deepStrictEqual(errors, [null, null, null]);
+      });
+
+      it('should use a custom retryableErrorFn', done => {
+        const customError = new Error('Custom.');
+        const op = new Operation({
+          parent: FAKE_SERVICE,
+          id: OPERATION_ID,
+          pollingConfig: {
+            retryableErrorFn: err => {
+              assert.strictEqual(err, customError);
+              return true;
+            },
+          },
+        });
+        sandbox.stub(op, 'getMetadata').callsArgWith(0, customError);
+        asAny(op).poll_((err: Error) => {
+          assert.ifError(err);
+          done();
+        });
+      });
+    });
+
     describe('operation incomplete', () => {
       const apiResponse = {done: false};
 
@@ -200,6 +665,52 @@ describe('Operation', () => {
           done();
         });
       });
+
+      it('should store the latest metadata', done => {
+        asAny(operation).poll_(() => {
+          assert.strictEqual(operation.metadata, apiResponse);
+          done();
+        });
+      });
+
+      it('should emit progress with the metadata', done => {
+        operation.on('progress', (metadata: {}) => {
+          assert.strictEqual(metadata, apiResponse);
+          done();
+        });
+        asAny(operation).poll_(util.noop);
+      });
+
+      it('should only emit progress when the metadata changes', () => {
+        let progressEvents = 0;
+        operation.on('progress', () => progressEvents++);
+        asAny(operation).poll_(util.noop);
+        asAny(operation).poll_(util.noop);
+        assert.strictEqual(progressEvents, 1);
+      });
+    });
+
+    describe('operation progress', () => {
+      it('should emit progress for each distinct snapshot', () => {
+        const snapshots = [
+          {done: false, metadata: {progressPercent: 10}},
+          {done: false, metadata: {progressPercent: 10}},
+          {done: false, metadata: {progressPercent: 50}},
+          {done: true, metadata: {progressPercent: 100}},
+        ];
+        const stub = sandbox.stub(operation, 'getMetadata');
+        snapshots.forEach((snapshot, i) => {
+          stub.onCall(i).callsArgWith(0, null, snapshot);
+        });
+        const emitted: {}[] = [];
+        operation.on('progress', (metadata: {}) => emitted.push(metadata));
+        snapshots.forEach(() => asAny(operation).poll_(util.noop));
+        assert.deepStrictEqual(emitted, [
+          snapshots[0],
+          snapshots[2],
+          snapshots[3],
+        ]);
+      });
     });
 
     describe('operation complete', () => {
@@ -219,6 +730,95 @@ describe('Operation', () => {
     });
   });
 
+  describe('wait endpoint', () => {
+    let op: Operation;
+
+    beforeEach(() => {
+      op = new Operation({
+        parent: FAKE_SERVICE,
+        id: OPERATION_ID,
+        pollingConfig: {useWaitEndpoint: true, waitTimeoutMs: 10000},
+      });
+    });
+
+    it('should make the correct API request', done => {
+      sandbox.stub(op, 'request').callsFake(reqOpts => {
+        assert.deepStrictEqual(reqOpts, {
+          method: 'POST',
+          uri: ':wait',
+          json: {timeout: '10s'},
+        });
+        done();
+      });
+      asAny(op).wait_(util.noop);
+    });
+
+    it('should not wait past the deadline', done => {
+      asAny(op).deadline_ = Date.now() + 2000;
+      sandbox.stub(op, 'request').callsFake(reqOpts => {
+        assert(parseFloat(reqOpts.json.timeout) <= 2);
+        done();
+      });
+      asAny(op).wait_(util.noop);
+    });
+
+    it('should poll through the wait endpoint', done => {
+      const apiResponse = {done: true};
+      const getMetadata = sandbox.stub(op, 'getMetadata');
+      sandbox.stub(op, 'request').callsArgWith(1, null, apiResponse);
+      asAny(op).poll_((err: Error, resp: {}) => {
+        assert.ifError(err);
+        assert.strictEqual(resp, apiResponse);
+        assert.strictEqual(op.metadata, apiResponse);
+        assert.strictEqual(getMetadata.callCount, 0);
+        done();
+      });
+    });
+
+    it('should fall back to getMetadata if unsupported', done => {
+      const error = new ApiError('Not implemented.');
+      error.code = 501;
+      const apiResponse = {done: true};
+      const request = sandbox.stub(op, 'request').callsArgWith(1, error);
+      sandbox.stub(op, 'getMetadata').callsArgWith(0, null, apiResponse);
+      asAny(op).poll_((err: Error, resp: {}) => {
+        assert.ifError(err);
+        assert.strictEqual(resp, apiResponse);
+        assert.strictEqual(asAny(op).shouldUseWaitEndpoint_(), false);
+        asAny(op).poll_(() => {
+          assert.strictEqual(request.callCount, 1);
+          done();
+        });
+      });
+    });
+
+    it('should poll again without delay after blocking', done => {
+      const clock = sandbox.useFakeTimers({toFake: ['Date']});
+      op.hasActiveListeners = true;
+      sandbox.stub(op, 'request').callsFake((reqOpts, callback) => {
+        clock.tick(10000);
+        callback!(null, {done: false}, asAny({}));
+      });
+      sandbox.stub(global, 'setTimeout').callsFake((fn, timeoutMs) => {
+        assert.strictEqual(timeoutMs, 0);
+        done();
+        return asAny({});
+      });
+      asAny(op).startPolling_();
+    });
+
+    it('should delay the next poll if the wait returned early', done => {
+      op.hasActiveListeners = true;
+      sandbox.stub(op, 'request').callsArgWith(1, null, {done: false});
+      sandbox.stub(global, 'setTimeout').callsFake((fn, timeoutMs) => {
+        assert.strictEqual(timeoutMs, 500);
+        done();
+        return asAny({});
+      });
+      asAny(op).startPolling_();
+    });
+  });
+
   describe('startPolling_', () => {
     beforeEach(() => {
       sandbox.stub(asAny(Operation).prototype, 'listenForEvents_');
@@ -238,6 +838,15 @@ describe('Operation', () => {
       asAny(operation).startPolling_();
     });
 
+    it('should stop if listeners were removed during the poll', done => {
+      sandbox.stub(operation, 'getMetadata').callsFake(callback => {
+        operation.hasActiveListeners = false;
+        callback(null, {done: true});
+      });
+      operation.on('complete', () => done(new Error('Should not complete.')));
+      void asAny(operation).startPolling_().then(done);
+    });
+
     describe('API error', () => {
       const error = new Error('Error.');
       beforeEach(() => {
@@ -251,6 +860,11 @@ describe('Operation', () => {
         });
         asAny(operation).startPolling_();
       });
+
+      it('should emit the error without an error listener', async () => {
+        await assert.rejects(asAny(operation).startPolling_(), error);
+        assert.strictEqual(operation.state, 'failed');
+      });
     });
 
     describe('operation pending', () => {
@@ -339,5 +953,101 @@ describe('Operation', () => {
         await asAny(operation).startPolling_();
       });
     });
+
+    describe('deadline', () => {
+      const apiResponse = {done: false};
+
+      beforeEach(() => {
+        sandbox
+          .stub(operation, 'getMetadata')
+          .callsArgWith(0, null, apiResponse);
+        operation.metadata = apiResponse;
+      });
+
+      it('should emit OperationTimeoutError after the deadline', done => {
+        asAny(operation).deadline_ = Date.now() - 1;
+        operation.on('error', (err: OperationTimeoutError) => {
+          assert(err instanceof OperationTimeoutError);
+          assert.strictEqual(err.metadata, apiResponse);
+          done();
+        });
+        asAny(operation).startPolling_();
+      });
+
+      it('should not wait past the deadline', done => {
+        asAny(operation).deadline_ = Date.now() + 100;
+        sandbox.stub(global, 'setTimeout').callsFake((fn, timeoutMs) => {
+          assert(timeoutMs! <= 100);
+          done();
+          return asAny({});
+        });
+        asAny(operation).startPolling_();
+      });
+
+      it('should set the deadline from totalTimeoutMs', async () => {
+        const op = new Operation({
+          parent: FAKE_SERVICE,
+          id: OPERATION_ID,
+          pollingConfig: {totalTimeoutMs: 1000},
+        });
+        op.hasActiveListeners = true;
+        sandbox.stub(op, 'getMetadata').callsArgWith(0, null, apiResponse);
+        sandbox.stub(global, 'setTimeout').returns(asAny({}));
+        const now = Date.now();
+        await asAny(op).startPolling_();
+        assert(asAny(op).deadline_ >= now + 1000);
+      });
+    });
+  });
+
+  describe('getNextPollDelay_', () => {
+    it('should default to 500 ms without backoff', () => {
+      assert.strictEqual(asAny(operation).getNextPollDelay_(), 500);
+      assert.strictEqual(asAny(operation).getNextPollDelay_(), 500);
+    });
+
+    it('should start from pollIntervalMs', () => {
+      const op = new Operation({
+        parent: FAKE_SERVICE,
+        id: OPERATION_ID,
+        pollIntervalMs: 2000,
+      });
+      assert.strictEqual(asAny(op).getNextPollDelay_(), 2000);
+    });
+
+    it('should grow the delay up to the maximum', () => {
+      const op = new Operation({
+        parent: FAKE_SERVICE,
+        id: OPERATION_ID,
+        pollIntervalMs: 2000,
+        pollingConfig: {
+          initialDelayMs: 100,
+          delayMultiplier: 2,
+          maxDelayMs: 500,
+        },
+      });
+      const delays = [1, 2, 3, 4, 5].map(() => asAny(op).getNextPollDelay_());
+      assert.deepStrictEqual(delays, [100, 200, 400, 500, 500]);
+    });
+
+    it('should apply jitter around the delay', () => {
+      const op = new Operation({
+        parent: FAKE_SERVICE,
+        id: OPERATION_ID,
+        pollingConfig: {initialDelayMs: 1000, jitter: 0.5},
+      });
+      sandbox.stub(Math, 'random').returns(0);
+      assert.strictEqual(asAny(op).getNextPollDelay_(), 500);
+    });
+
+    it('should not exceed the maximum delay with jitter', () => {
+      const op = new Operation({
+        parent: FAKE_SERVICE,
+        id: OPERATION_ID,
+        pollingConfig: {initialDelayMs: 1000, maxDelayMs: 1000, jitter: 0.5},
+      });
+      sandbox.stub(Math, 'random').returns(0.99);
+      assert.strictEqual(asAny(op).getNextPollDelay_(), 1000);
+    });
   });
 });
@@ -0,0 +1,151 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach, afterEach} from 'mocha';
+import * as sinon from 'sinon';
+
+import {Service} from '../src';
+import {Operation} from '../src/operation';
+import {OperationsClient} from '../src/operations-client';
+import {ServiceObject} from '../src/service-object';
+import {DecorateRequestOptions, util} from '../src/util';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const asAny = (o: {}) => o as any;
+
+describe('OperationsClient', () => {
+  const sandbox = sinon.createSandbox();
+  let parent: Service;
+  let client: OperationsClient;
+
+  beforeEach(() => {
+    parent = {
+      interceptors: [],
+      getRequestInterceptors: () => [],
+      request: util.noop,
+    } as {} as Service;
+    client = new OperationsClient({parent, baseUrl: 'locations/us'});
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  describe('instantiation', () => {
+    it('should extend ServiceObject', () => {
+      assert(client instanceof ServiceObject);
+    });
+
+    it('should localize the config', () => {
+      assert.strictEqual(client.parent, parent);
+      assert.strictEqual(client.baseUrl, 'locations/us');
+      assert.strictEqual(client.id, 'operations');
+    });
+
+    it('should allow overriding the collection id', () => {
+      const client = new OperationsClient({parent, id: 'jobs'});
+      assert.strictEqual(client.id, 'jobs');
+      assert.strictEqual(client.baseUrl, '');
+    });
+
+    it('should not inherit the object methods', () => {
+      assert.strictEqual(client.create, undefined);
+      assert.strictEqual(client.delete, undefined);
+      assert.strictEqual(client.getMetadata, undefined);
+    });
+  });
+
+  describe('getOperations', () => {
+    it('should make the correct API request', done => {
+      parent.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.uri, 'locations/us/operations');
+        assert.deepStrictEqual(reqOpts.qs, {filter: 'done=false'});
+        done();
+      };
+      client.getOperations({filter: 'done=false'}, util.noop);
+    });
+
+    it('should wrap each result as an Operation', done => {
+      const apiResponse = {};
+      const body = {
+        operations: [
+          {name: 'locations/us/operations/a', done: false},
+          {name: 'locations/us/operations/b', done: true},
+        ],
+      };
+      sandbox.stub(client, 'request').callsArgWith(1, null, body, apiResponse);
+      client.getOperations((err, operations, nextQuery, resp) => {
+        assert.ifError(err);
+        assert.strictEqual(operations!.length, 2);
+        assert(operations![0] instanceof Operation);
+        assert.strictEqual(operations![0].id, 'a');
+        assert.strictEqual(operations![0].parent, client);
+        assert.strictEqual(operations![1].metadata, body.operations[1]);
+        assert.strictEqual(nextQuery, null);
+        assert.strictEqual(resp, apiResponse);
+        done();
+      });
+    });
+
+    it('should return the next query', done => {
+      const body = {operations: [], nextPageToken: 'token'};
+      sandbox.stub(client, 'request').callsArgWith(1, null, body, {});
+      client.getOperations({pageSize: 10}, (err, operations, nextQuery) => {
+        assert.ifError(err);
+        assert.deepStrictEqual(operations, []);
+        assert.deepStrictEqual(nextQuery, {pageSize: 10, pageToken: 'token'});
+        done();
+      });
+    });
+
+    it('should return the error', done => {
+      const error = new Error('Error.');
+      const apiResponse = {};
+      sandbox.stub(client, 'request').callsArgWith(1, error, null, apiResponse);
+      client.getOperations((err, operations, nextQuery, resp) => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(operations, null);
+        assert.strictEqual(resp, apiResponse);
+        done();
+      });
+    });
+
+    it('should return a promise', async () => {
+      const body = {operations: [{name: 'a'}]};
+      sandbox.stub(client, 'request').callsArgWith(1, null, body, {});
+      const [operations, nextQuery] = await client.getOperations();
+      assert.strictEqual(operations[0].id, 'a');
+      assert.strictEqual(nextQuery, null);
+    });
+  });
+
+  describe('operation', () => {
+    it('should return an Operation with delete support', () => {
+      const operation = client.operation('locations/us/operations/a');
+      assert.strictEqual(operation.id, 'a');
+      assert.strictEqual(typeof operation.delete, 'function');
+      assert.strictEqual(typeof operation.getMetadata, 'function');
+    });
+
+    it('should delete through the collection', done => {
+      parent.request = (reqOpts: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts.method, 'DELETE');
+        assert.strictEqual(reqOpts.uri, 'locations/us/operations/a');
+        done();
+      };
+      void asAny(client.operation('a')).delete(util.noop);
+    });
+  });
+});
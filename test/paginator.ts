@@ -0,0 +1,247 @@
+// Copyright 2026 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//      http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as assert from 'assert';
+import {describe, it, beforeEach} from 'mocha';
+
+import {once} from 'events';
+
+import {createListStream, paginate, PaginateOptions} from '../src/paginator';
+import {BodyResponseCallback, DecorateRequestOptions} from '../src/util';
+
+describe('paginator', () => {
+  const PAGES: {[pageToken: string]: {}} = {
+    '': {items: [1, 2, 3], nextPageToken: 'b'},
+    b: {items: [4, 5, 6], nextPageToken: 'c'},
+    c: {items: [7]},
+  };
+
+  let requests: DecorateRequestOptions[];
+
+  function request(
+    reqOpts: DecorateRequestOptions,
+    callback: BodyResponseCallback,
+  ) {
+    requests.push(reqOpts);
+    setImmediate(() => callback(null, PAGES[reqOpts.qs.pageToken || '']));
+  }
+
+  async function collect(
+    reqOpts: DecorateRequestOptions,
+    options?: PaginateOptions,
+  ) {
+    const items = [];
+    for await (const item of paginate(request, reqOpts, options)) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  describe('paginate', () => {
+    it('should follow nextPageToken through every page', async () => {
+      const items = await collect({uri: 'list'});
+      assert.deepStrictEqual(items, [1, 2, 3, 4, 5, 6, 7]);
+      assert.deepStrictEqual(
+        requests.map(reqOpts => reqOpts.qs),
+        [{}, {pageToken: 'b'}, {pageToken: 'c'}],
+      );
+    });
+
+    it('should keep the original request options', async () => {
+      await collect({uri: 'list', method: 'GET', qs: {filter: 'a'}});
+      assert.deepStrictEqual(requests[1], {
+        uri: 'list',
+        method: 'GET',
+        qs: {filter: 'a', pageToken: 'b'},
+      });
+    });
+
+    it('should start from the given pageToken', async () => {
+      const items = await collect({uri: 'list', qs: {pageToken: 'c'}});
+      assert.deepStrictEqual(items, [7]);
+    });
+
+    it('should stop after maxResults', async () => {
+      const items = await collect({uri: 'list'}, {maxResults: 4});
+      assert.deepStrictEqual(items, [1, 2, 3, 4]);
+      assert.strictEqual(requests.length, 2);
+    });
+
+    it('should send the pageSize', async () => {
+      await collect({uri: 'list'}, {pageSize: 3, maxResults: 5});
+      assert.deepStrictEqual(
+        requests.map(reqOpts => reqOpts.qs.pageSize),
+        [3, 2],
+      );
+    });
+
+    it('should read items from a custom key', async () => {
+      const items = [];
+      const request = (
+        reqOpts: DecorateRequestOptions,
+        callback: BodyResponseCallback,
+      ) => callback(null, {operations: ['a', 'b']});
+      for await (const item of paginate(
+        request,
+        {uri: 'list'},
+        {itemsKey: 'operations'},
+      )) {
+        items.push(item);
+      }
+      assert.deepStrictEqual(items, ['a', 'b']);
+    });
+
+    it('should not request the next page until it is needed', async () => {
+      const iterator = paginate(request, {uri: 'list'});
+      await iterator.next();
+      await iterator.next();
+      await iterator.next();
+      assert.strictEqual(requests.length, 1);
+      await iterator.next();
+      assert.strictEqual(requests.length, 2);
+    });
+
+    it('should throw request errors', async () => {
+      const error = new Error('Error.');
+      const request = (
+        reqOpts: DecorateRequestOptions,
+        callback: BodyResponseCallback,
+      ) => callback(error);
+      await assert.rejects(paginate(request, {uri: 'list'}).next(), error);
+    });
+
+    describe('prefetch', () => {
+      it('should request pages ahead of the consumer', async () => {
+        const iterator = paginate(request, {uri: 'list'}, {prefetch: 1});
+        assert.deepStrictEqual((await iterator.next()).value, 1);
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(requests.length, 2);
+        await new Promise(resolve => setImmediate(resolve));
+        // Page "c" is two pages ahead of page "", beyond the lookahead.
+        assert.strictEqual(requests.length, 2);
+        await iterator.return();
+      });
+
+      it('should return every item in order', async () => {
+        const items = await collect({uri: 'list'}, {prefetch: 5});
+        assert.deepStrictEqual(items, [1, 2, 3, 4, 5, 6, 7]);
+        assert.deepStrictEqual(
+          requests.map(reqOpts => reqOpts.qs),
+          [{}, {pageToken: 'b'}, {pageToken: 'c'}],
+        );
+      });
+
+      it('should respect maxResults', async () => {
+        const items = await collect(
+          {uri: 'list'},
+          {maxResults: 3, pageSize: 3, prefetch: 2},
+        );
+        assert.deepStrictEqual(items, [1, 2, 3]);
+        assert.strictEqual(requests.length, 1);
+      });
+
+      it('should not request more pages once stopped', async () => {
+        const iterator = paginate(request, {uri: 'list'}, {prefetch: 2});
+        await iterator.next();
+        await iterator.return();
+        await new Promise(resolve => setImmediate(resolve));
+        await new Promise(resolve => setImmediate(resolve));
+        assert.strictEqual(requests.length, 2);
+      });
+
+      it('should throw errors once the page is reached', async () => {
+        const error = new Error('Error.');
+        const request = (
+          reqOpts: DecorateRequestOptions,
+          callback: BodyResponseCallback,
+        ) => {
+          if (reqOpts.qs.pageToken) {
+            callback(error);
+            return;
+          }
+          callback(null, {items: [1], nextPageToken: 'b'});
+        };
+        const iterator = paginate(request, {uri: 'list'}, {prefetch: 3});
+        assert.strictEqual((await iterator.next()).value, 1);
+        await assert.rejects(iterator.next(), error);
+      });
+    });
+  });
+
+  describe('createListStream', () => {
+    it('should emit one item per data event across pages', async () => {
+      const items = [];
+      for await (const item of createListStream(request, {uri: 'list'})) {
+        items.push(item);
+      }
+      assert.deepStrictEqual(items, [1, 2, 3, 4, 5, 6, 7]);
+      assert.strictEqual(requests.length, 3);
+    });
+
+    it('should pass options to the paginator', async () => {
+      const items = [];
+      const stream = createListStream(request, {uri: 'list'}, {maxResults: 2});
+      for await (const item of stream) {
+        items.push(item);
+      }
+      assert.deepStrictEqual(items, [1, 2]);
+    });
+
+    it('should not request the next page until drained', async () => {
+      const stream = createListStream(request, {uri: 'list'});
+      const read = async () => {
+        const item = stream.read();
+        if (item !== null) {
+          return item;
+        }
+        await once(stream, 'readable');
+        return stream.read();
+      };
+      assert.strictEqual(await read(), 1);
+      assert.strictEqual(await read(), 2);
+      await new Promise(resolve => setImmediate(resolve));
+      assert.strictEqual(requests.length, 1);
+      assert.strictEqual(await read(), 3);
+      assert.strictEqual(await read(), 4);
+      assert.strictEqual(requests.length, 2);
+      stream.destroy();
+    });
+
+    it('should not make more requests once destroyed', async () => {
+      const stream = createListStream(request, {uri: 'list'});
+      const [item] = await once(stream, 'data');
+      assert.strictEqual(item, 1);
+      stream.destroy();
+      await once(stream, 'close');
+      await new Promise(resolve => setImmediate(resolve));
+      assert.strictEqual(requests.length, 1);
+    });
+
+    it('should emit request errors', async () => {
+      const error = new Error('Error.');
+      const request = (
+        reqOpts: DecorateRequestOptions,
+        callback: BodyResponseCallback,
+      ) => callback(error);
+      const stream = createListStream(request, {uri: 'list'});
+      stream.resume();
+      const [err] = await once(stream, 'error').catch(err => [err]);
+      assert.strictEqual(err, error);
+    });
+  });
+});
@@ -25,6 +25,7 @@ import * as r from 'teeny-request';
 import * as sinon from 'sinon';
 
 import {Service} from '../src';
+import {Operation} from '../src/operation';
 import * as SO from '../src/service-object';
 
 let promisified = false;
@@ -33,7 +34,6 @@ const fakePromisify = {
   promisifyAll(Class: Function, options: PromisifyAllOptions) {
     if (Class.name === 'ServiceObject') {
       promisified = true;
-      assert.deepStrictEqual(options.exclude, ['getRequestInterceptors']);
     }
 
     return promisifyAll(Class, options);
@@ -47,6 +47,7 @@ import {
   ApiError,
   BodyResponseCallback,
   DecorateRequestOptions,
+  PreconditionFailedError,
   util,
 } from '../src/util';
 
@@ -87,8 +88,8 @@ describe('ServiceObject', () => {
   });
 
   describe('instantiation', () => {
-    it('should promisify all the things', () => {
-      assert(promisified);
+    it('should implement promises natively', () => {
+      assert.strictEqual(promisified, false);
     });
 
     it('should create an empty metadata object', () => {
@@ -152,6 +153,14 @@ describe('ServiceObject', () => {
         'function',
       );
     });
+
+    it('should always expose the long-running operation helpers', () => {
+      const methods = {};
+      const config = extend({}, CONFIG, {methods});
+      const serviceObject = new ServiceObject(config);
+      assert.strictEqual(typeof serviceObject.handleLongRunning_, 'function');
+      assert.strictEqual(typeof serviceObject.createOperation_, 'function');
+    });
   });
 
   describe('create', () => {
@@ -216,8 +225,8 @@ describe('ServiceObject', () => {
     it('should pass error to callback', done => {
       const config = extend({}, CONFIG, {createMethod});
       const options = {};
-      const error = new Error('Error.');
-      const apiResponse = {};
+      const apiResponse = {} as r.Response;
+      const error = new ApiError({code: 500, response: apiResponse});
       function createMethod(id: string, options_: {}, callback: Function) {
         callback(error, null, apiResponse);
       }
@@ -285,6 +294,84 @@ describe('ServiceObject', () => {
         done();
       });
     });
+
+    it('should not pass the signal to createMethod', async () => {
+      const config = extend({}, CONFIG, {createMethod});
+      const options = {a: 'b', signal: new AbortController().signal};
+      function createMethod(id: string, options_: {}, callback: Function) {
+        assert.deepStrictEqual(options_, {a: 'b'});
+        callback(null, {}, {});
+      }
+
+      const serviceObject = new ServiceObject(config);
+      await serviceObject.create(options);
+    });
+
+    it('should reject with the reason when aborted', async () => {
+      const config = extend({}, CONFIG, {createMethod});
+      const controller = new AbortController();
+      let respond: Function = util.noop;
+      function createMethod(id: string, callback: Function) {
+        respond = callback;
+      }
+
+      const serviceObject = new ServiceObject(config);
+      const promise = serviceObject.create({signal: controller.signal});
+      controller.abort();
+      await assert.rejects(promise, {name: 'AbortError'});
+      respond(null, {metadata: {id: 'late'}}, {});
+      assert.deepStrictEqual(serviceObject.metadata, {});
+    });
+
+    it('should return an Operation for long-running responses', async () => {
+      const body = {name: 'operations/abc', done: false};
+      const config = extend({}, CONFIG, {
+        createMethod,
+        methods: {create: {longRunning: true}},
+      });
+      function createMethod(id: string, callback: Function) {
+        callback(null, {metadata: body}, body);
+      }
+
+      const serviceObject = new ServiceObject(config);
+      const [instance, operation] = await serviceObject.create();
+      assert.strictEqual(instance, serviceObject);
+      assert(operation instanceof Operation);
+      assert.strictEqual(operation.id, body.name);
+      assert.deepStrictEqual(serviceObject.metadata, {});
+    });
+
+    it('should wait for long-running creation to complete', async () => {
+      const body = {name: 'operations/abc', done: false};
+      const resource = {id: 'id'};
+      sandbox.stub(Operation.prototype, 'result').resolves(resource);
+      const config = extend({}, CONFIG, {
+        createMethod,
+        methods: {create: {longRunning: {waitForCompletion: true}}},
+      });
+      function createMethod(id: string, callback: Function) {
+        callback(null, {metadata: body}, body);
+      }
+
+      const serviceObject = new ServiceObject(config);
+      const [, result] = await serviceObject.create();
+      assert.strictEqual(result, resource);
+      assert.strictEqual(serviceObject.metadata, resource);
+    });
+
+    it('should not call createMethod if already aborted', async () => {
+      const config = extend({}, CONFIG, {createMethod: sandbox.spy()});
+      const reason = new Error('aborted');
+      const controller = new AbortController();
+      controller.abort(reason);
+
+      const serviceObject = new ServiceObject(config);
+      await assert.rejects(
+        serviceObject.create({signal: controller.signal}),
+        reason,
+      );
+      assert.strictEqual(config.createMethod.callCount, 0);
+    });
   });
 
   describe('delete', () => {
@@ -318,6 +405,22 @@ describe('ServiceObject', () => {
       serviceObject.delete(options, assert.ifError);
     });
 
+    it('should pass the signal in the request options', done => {
+      const signal = new AbortController().signal;
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsFake((reqOpts, callback) => {
+          assert.strictEqual(
+            (reqOpts as DecorateRequestOptions).signal,
+            signal,
+          );
+          assert.deepStrictEqual((reqOpts as DecorateRequestOptions).qs, {});
+          done();
+          (callback as any)(null, null, {} as r.Response);
+        });
+      serviceObject.delete({signal}, assert.ifError);
+    });
+
     it('should override method and uri field in request with methodConfig', done => {
       const methodConfig = {
         reqOpts: {
@@ -352,6 +455,80 @@ describe('ServiceObject', () => {
       serviceObject.delete();
     });
 
+    it('should return an Operation for long-running responses', done => {
+      const body = {name: 'operations/abc', done: false};
+      const apiResponse = {};
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsArgWith(1, null, body, apiResponse);
+      const serviceObject = new ServiceObject(CONFIG) as FakeServiceObject;
+      serviceObject.methods.delete = {longRunning: true};
+      serviceObject.delete(
+        (err: Error, operation: Operation, apiResponse_: {}) => {
+          assert.ifError(err);
+          assert(operation instanceof Operation);
+          assert.strictEqual(operation.id, body.name);
+          assert.strictEqual(operation.parent, serviceObject.parent);
+          assert.strictEqual(operation.metadata, body);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        },
+      );
+    });
+
+    it('should poll long-running operations at the API root', async () => {
+      const service = new Service(
+        {
+          baseUrl: 'https://api.example.com/v1',
+          apiEndpoint: 'api.example.com',
+          scopes: [],
+          packageJson: {name: 'pkg', version: '1.0.0'},
+        },
+        {projectId: 'p'},
+      );
+      const name = 'projects/p/locations/l/operations/op1';
+      const uris: string[] = [];
+      service.makeAuthenticatedRequest = ((
+        reqOpts: DecorateRequestOptions,
+        callback: BodyResponseCallback,
+      ) => {
+        uris.push(reqOpts.uri);
+        callback(null, {name, done: false}, {} as r.Response);
+      }) as {} as typeof service.makeAuthenticatedRequest;
+      const bucket = new ServiceObject({
+        parent: service,
+        baseUrl: 'buckets',
+        id: 'bucket',
+      });
+      const serviceObject = new ServiceObject({
+        parent: bucket,
+        baseUrl: 'files',
+        id: 'file',
+        methods: {delete: {longRunning: true}},
+      });
+
+      const [operation] = await serviceObject.delete();
+      await operation.getMetadata();
+      await operation.cancel();
+      assert.deepStrictEqual(uris, [
+        'https://api.example.com/v1/projects/p/buckets/bucket/files/file',
+        `https://api.example.com/v1/${name}`,
+        `https://api.example.com/v1/${name}:cancel`,
+      ]);
+    });
+
+    it('should not wrap responses unless configured', done => {
+      const body = {name: 'operations/abc', done: false};
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsArgWith(1, null, body);
+      serviceObject.delete((err, body_) => {
+        assert.ifError(err);
+        assert.strictEqual(body_, body);
+        done();
+      });
+    });
+
     it('should respect ignoreNotFound opion', done => {
       const options = {ignoreNotFound: true};
       const error = new ApiError({code: 404, response: {} as r.Response});
@@ -363,6 +540,20 @@ describe('ServiceObject', () => {
       });
     });
 
+    it('should resolve with the body & API response if not found', async () => {
+      const body = {};
+      const apiResponse = {} as r.Response;
+      const error = new ApiError({code: 404, response: apiResponse});
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsArgWith(1, error, body, apiResponse);
+      const [body_, apiResponse_] = await serviceObject.delete({
+        ignoreNotFound: true,
+      });
+      assert.strictEqual(body_, body);
+      assert.strictEqual(apiResponse_, apiResponse);
+    });
+
     it('should propagate other then 404 error', done => {
       const options = {ignoreNotFound: true};
       const error = new ApiError({code: 406, response: {} as r.Response});
@@ -434,6 +625,17 @@ describe('ServiceObject', () => {
       });
     });
 
+    it('should resolve with the body & API response', async () => {
+      const body = {};
+      const apiResponse = {} as r.Response;
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsArgWith(1, null, body, apiResponse);
+      const [body_, apiResponse_] = await serviceObject.delete();
+      assert.strictEqual(body_, body);
+      assert.strictEqual(apiResponse_, apiResponse);
+    });
+
     it('should execute callback with correct arguments', done => {
       const error = new Error('🦃');
       sandbox.stub(ServiceObject.prototype, 'request').callsArgWith(1, error);
@@ -494,6 +696,18 @@ describe('ServiceObject', () => {
         done();
       });
     });
+
+    it('should call a callback-only get override', async () => {
+      class CallbackServiceObject extends SO.ServiceObject {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        get(...args: Array<{}>): any {
+          const callback = args.pop() as Function;
+          callback(null, this, {} as r.Response);
+        }
+      }
+      const [exists] = await new CallbackServiceObject(CONFIG).exists();
+      assert.strictEqual(exists, true);
+    });
   });
 
   describe('get', () => {
@@ -561,6 +775,29 @@ describe('ServiceObject', () => {
       });
     });
 
+    it('should call callback-only overrides', async () => {
+      const error = new ApiError({code: 404, response: {} as r.Response});
+      const apiResponse = {} as r.Response;
+      class CallbackServiceObject extends SO.ServiceObject {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        getMetadata(...args: Array<{}>): any {
+          const callback = args.pop() as Function;
+          callback(error);
+        }
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        create(...args: Array<{}>): any {
+          const callback = args.pop() as Function;
+          callback(null, this, apiResponse);
+        }
+      }
+      const callbackServiceObject = new CallbackServiceObject(CONFIG);
+      const [instance, apiResponse_] = await callbackServiceObject.get({
+        autoCreate: true,
+      });
+      assert.strictEqual(instance, callbackServiceObject);
+      assert.strictEqual(apiResponse_, apiResponse);
+    });
+
     describe('autoCreate', () => {
       let AUTO_CREATE_CONFIG: {};
 
@@ -611,22 +848,38 @@ describe('ServiceObject', () => {
         serviceObject.get(AUTO_CREATE_CONFIG, done);
       });
 
+      it('should return the created instance & API response', async () => {
+        const apiResponse = {} as r.Response;
+        sandbox
+          .stub(serviceObject, 'create')
+          .callsArgWith(0, null, serviceObject, apiResponse);
+        const [instance, apiResponse_] =
+          await serviceObject.get(AUTO_CREATE_CONFIG);
+        assert.strictEqual(instance, serviceObject);
+        assert.strictEqual(apiResponse_, apiResponse);
+      });
+
+      it('should not pass the signal to createMethod', async () => {
+        const signal = new AbortController().signal;
+        const createMethod = sandbox.stub().callsArgWith(1, null, {}, {});
+        const serviceObject = new ServiceObject(
+          extend({}, CONFIG, {createMethod}),
+        );
+        sandbox.stub(serviceObject, 'getMetadata').callsArgWith(1, ERROR);
+        await serviceObject.get({autoCreate: true, signal});
+        const args = createMethod.firstCall.args;
+        assert.strictEqual(args.length, 2);
+        assert.strictEqual(args[0], CONFIG.id);
+        assert.strictEqual(typeof args[1], 'function');
+      });
+
       describe('error', () => {
         it('should execute callback with error & API response', done => {
           const error = new Error('Error.');
           const apiResponse = {} as r.Response;
-
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          (sandbox.stub(serviceObject, 'create') as any).callsFake(
-            (optsOrCb: {}, cb: Function) => {
-              const callback = typeof optsOrCb === 'function' ? optsOrCb : cb;
-              sandbox.stub(serviceObject, 'get').callsFake((cfg, callback) => {
-                assert.deepStrictEqual(cfg, {});
-                callback!(null); // done()
-              });
-              callback!(error, null, apiResponse);
-            },
-          );
+          sandbox
+            .stub(serviceObject, 'create')
+            .callsArgWith(0, error, null, apiResponse);
 
           serviceObject.get(AUTO_CREATE_CONFIG, (err, instance, resp) => {
             assert.strictEqual(err, error);
@@ -759,6 +1012,21 @@ describe('ServiceObject', () => {
       });
     });
 
+    it('should execute callback with error body & apiResponse', done => {
+      const error = new Error('ಠ_ಠ');
+      const body = {};
+      const apiResponse = {} as r.Response;
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsArgWith(1, error, body, apiResponse);
+      void serviceObject.getMetadata((err: Error, metadata, apiResponse_) => {
+        assert.strictEqual(err, error);
+        assert.strictEqual(metadata, body);
+        assert.strictEqual(apiResponse_, apiResponse);
+        done();
+      });
+    });
+
     it('should update metadata', done => {
       const apiResponse = {};
       sandbox
@@ -771,6 +1039,72 @@ describe('ServiceObject', () => {
       });
     });
 
+    describe('long-running', () => {
+      const body = {name: 'operations/abc', metadata: {}};
+
+      beforeEach(() => {
+        sandbox
+          .stub(ServiceObject.prototype, 'request')
+          .callsArgWith(1, null, body, {});
+      });
+
+      it('should return an Operation', done => {
+        const serviceObject = new ServiceObject(CONFIG) as FakeServiceObject;
+        serviceObject.methods.setMetadata = {longRunning: true};
+        serviceObject.setMetadata({}, (err: Error, operation: Operation) => {
+          assert.ifError(err);
+          assert(operation instanceof Operation);
+          assert.deepStrictEqual(serviceObject.metadata, {});
+          done();
+        });
+      });
+
+      it('should wait for completion', done => {
+        const response = {updated: true};
+        sandbox.stub(Operation.prototype, 'result').resolves(response);
+        const serviceObject = new ServiceObject(CONFIG) as FakeServiceObject;
+        serviceObject.methods.setMetadata = {
+          longRunning: {waitForCompletion: true},
+        };
+        serviceObject.setMetadata({}, (err: Error, metadata: {}) => {
+          assert.ifError(err);
+          assert.strictEqual(metadata, response);
+          assert.strictEqual(serviceObject.metadata, response);
+          done();
+        });
+      });
+
+      it('should return the operation error', done => {
+        const error = new Error('Error.');
+        sandbox.stub(Operation.prototype, 'result').rejects(error);
+        const serviceObject = new ServiceObject(CONFIG) as FakeServiceObject;
+        serviceObject.methods.setMetadata = {
+          longRunning: {waitForCompletion: true},
+        };
+        serviceObject.setMetadata({}, (err: Error) => {
+          assert.strictEqual(err, error);
+          done();
+        });
+      });
+
+      it('should not treat other resources as operations', done => {
+        const serviceObject = new ServiceObject(CONFIG) as FakeServiceObject;
+        serviceObject.methods.setMetadata = {longRunning: true};
+        const resource = {name: 'bucket', location: 'US'};
+        (ServiceObject.prototype.request as sinon.SinonStub).callsArgWith(
+          1,
+          null,
+          resource,
+          {},
+        );
+        serviceObject.setMetadata({}, (err: Error, metadata: {}) => {
+          assert.ifError(err);
+          assert.strictEqual(metadata, resource);
+          done();
+        });
+      });
+    });
+
     it('should execute callback with metadata & API response', done => {
       const apiResponse = {};
       const requestResponse = {body: apiResponse};
@@ -783,6 +1117,157 @@ describe('ServiceObject', () => {
         done();
       });
     });
+
+    it('should type the metadata', async () => {
+      interface BucketMetadata {
+        name?: string;
+        labels?: {[key: string]: string};
+      }
+      const bucket = new ServiceObject(CONFIG) as SO.ServiceObject<
+        {},
+        BucketMetadata
+      >;
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsArgWith(1, null, {name: 'bucket'});
+      const [metadata] = await bucket.getMetadata();
+      const name: string | undefined = metadata.name;
+      assert.strictEqual(name, 'bucket');
+      assert.strictEqual(bucket.metadata.name, 'bucket');
+      const [updated] = await bucket.setMetadata({labels: {env: 'dev'}});
+      assert.strictEqual(updated.name, 'bucket');
+    });
+
+    it('should pass the signal in the request options', done => {
+      const signal = new AbortController().signal;
+      const options = {signal, other: true};
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsFake((reqOpts, callback) => {
+          assert.strictEqual(
+            (reqOpts as DecorateRequestOptions).signal,
+            signal,
+          );
+          assert.deepStrictEqual((reqOpts as DecorateRequestOptions).qs, {
+            other: true,
+          });
+          (callback as any)(null, {});
+        });
+      void serviceObject.getMetadata(options, done);
+    });
+
+    it('should send fields as a system parameter', done => {
+      const options = {fields: ['name', 'labels'], other: true};
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsFake((reqOpts, callback) => {
+          assert.deepStrictEqual((reqOpts as DecorateRequestOptions).qs, {
+            fields: 'name,labels',
+            other: true,
+          });
+          (callback as any)(null, {});
+        });
+      void serviceObject.getMetadata(options, done);
+    });
+
+    describe('cache', () => {
+      let request: sinon.SinonStub;
+
+      beforeEach(() => {
+        serviceObject = new ServiceObject(
+          Object.assign({}, CONFIG, {metadataCacheTtlMs: 1000}),
+        );
+        serviceObject.parent.interceptors = [];
+        let calls = 0;
+        request = sandbox
+          .stub(ServiceObject.prototype, 'request')
+          .callsFake((reqOpts, callback) => {
+            (callback as any)(null, {calls: ++calls}, {});
+          });
+      });
+
+      it('should not cache by default', async () => {
+        const serviceObject = new ServiceObject(CONFIG);
+        await serviceObject.getMetadata();
+        await serviceObject.getMetadata();
+        assert.strictEqual(request.callCount, 2);
+      });
+
+      it('should return cached metadata while it is fresh', async () => {
+        const clock = sandbox.useFakeTimers({toFake: ['Date']});
+        const [metadata] = await serviceObject.getMetadata();
+        const [cached, apiResponse] = await serviceObject.getMetadata();
+        assert.strictEqual(cached, metadata);
+        assert.strictEqual(serviceObject.metadata, metadata);
+        assert.deepStrictEqual(apiResponse, {});
+        assert.strictEqual(request.callCount, 1);
+
+        clock.tick(1000);
+        const [refreshed] = await serviceObject.getMetadata();
+        assert.deepStrictEqual(refreshed, {calls: 2});
+      });
+
+      it('should key the cache by the query options', async () => {
+        const options = {a: 1, b: 2};
+        const reordered = {b: 2, a: 1};
+        await serviceObject.getMetadata(options);
+        await serviceObject.getMetadata(reordered);
+        assert.strictEqual(request.callCount, 1);
+        const otherOptions = {a: 2};
+        const [metadata] = await serviceObject.getMetadata(otherOptions);
+        assert.deepStrictEqual(metadata, {calls: 2});
+      });
+
+      it('should be cleared by custom methods', async () => {
+        const serviceObject = new ServiceObject(
+          Object.assign({}, CONFIG, {
+            metadataCacheTtlMs: 1000,
+            methods: {
+              getMetadata: true,
+              archive: {},
+              getStats: {method: 'GET'},
+            },
+          }),
+        );
+        await serviceObject.getMetadata();
+        await serviceObject.getStats();
+        await serviceObject.getMetadata();
+        assert.strictEqual(request.callCount, 2);
+        await serviceObject.archive();
+        const [metadata] = await serviceObject.getMetadata();
+        assert.deepStrictEqual(metadata, {calls: 4});
+      });
+
+      it('should skip the cache with `cache: false`', async () => {
+        await serviceObject.getMetadata();
+        const [metadata] = await serviceObject.getMetadata({cache: false});
+        assert.deepStrictEqual(metadata, {calls: 2});
+        assert.deepStrictEqual(request.secondCall.args[0].qs, {});
+        const [cached] = await serviceObject.getMetadata();
+        assert.strictEqual(cached, metadata);
+      });
+
+      it('should not cache errors', async () => {
+        request.onFirstCall().callsArgWith(1, new Error('Error.'));
+        await assert.rejects(serviceObject.getMetadata());
+        await serviceObject.getMetadata();
+        assert.strictEqual(request.callCount, 2);
+      });
+
+      it('should be invalidated by setMetadata', async () => {
+        await serviceObject.getMetadata();
+        await serviceObject.setMetadata({});
+        await serviceObject.getMetadata();
+        assert.strictEqual(request.callCount, 3);
+      });
+
+      it('should be invalidated by delete', async () => {
+        await serviceObject.getMetadata();
+        await serviceObject.delete();
+        await serviceObject.getMetadata();
+        assert.strictEqual(request.callCount, 3);
+      });
+    });
   });
 
   describe('getRequestInterceptors', () => {
@@ -1019,6 +1504,506 @@ describe('ServiceObject', () => {
         done();
       });
     });
+
+    it('should pass the signal in the request options', done => {
+      const signal = new AbortController().signal;
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsFake((reqOpts, callback) => {
+          assert.strictEqual(
+            (reqOpts as DecorateRequestOptions).signal,
+            signal,
+          );
+          assert.deepStrictEqual((reqOpts as DecorateRequestOptions).qs, {});
+          (callback as any)(null, {});
+        });
+      void serviceObject.setMetadata({}, {signal}, done);
+    });
+
+    describe('updateMask', () => {
+      let request: sinon.SinonStub;
+
+      beforeEach(() => {
+        request = sandbox
+          .stub(ServiceObject.prototype, 'request')
+          .callsArgWith(1, null, {});
+      });
+
+      it('should compute the mask from the cached metadata', async () => {
+        serviceObject.metadata = {
+          name: 'a',
+          labels: {env: 'dev', team: 'a'},
+          tags: ['a'],
+        };
+        const patch = {
+          name: 'a',
+          labels: {env: 'prod', team: 'a'},
+          tags: ['a', 'b'],
+          description: 'new',
+        };
+        await serviceObject.setMetadata(patch, {updateMask: true});
+        const reqOpts = request.firstCall.args[0];
+        assert.strictEqual(
+          reqOpts.qs.updateMask,
+          'labels.env,tags,description',
+        );
+        assert.deepStrictEqual(reqOpts.json, patch);
+      });
+
+      it('should not make a request if nothing changed', done => {
+        const metadata = {name: 'a'};
+        serviceObject.metadata = metadata;
+        void serviceObject.setMetadata(
+          {name: 'a'},
+          {updateMask: true},
+          (err, metadata_) => {
+            assert.ifError(err);
+            assert.strictEqual(metadata_, metadata);
+            assert(request.notCalled);
+            done();
+          },
+        );
+      });
+
+      it('should join a list of fields', async () => {
+        await serviceObject.setMetadata({}, {updateMask: ['a', 'b.c']});
+        assert.strictEqual(request.firstCall.args[0].qs.updateMask, 'a,b.c');
+      });
+
+      it('should pass a string through', async () => {
+        await serviceObject.setMetadata({}, {updateMask: 'a,b'});
+        assert.strictEqual(request.firstCall.args[0].qs.updateMask, 'a,b');
+      });
+    });
+
+    describe('ifMatch', () => {
+      it('should send the cached etag', done => {
+        serviceObject.metadata = {etag: 'etag-1'};
+        sandbox
+          .stub(ServiceObject.prototype, 'request')
+          .callsFake((reqOpts, callback) => {
+            const {headers, qs} = reqOpts as DecorateRequestOptions;
+            assert.deepStrictEqual(headers, {'If-Match': 'etag-1'});
+            assert.deepStrictEqual(qs, {a: 'b'});
+            (callback as any)(null, {});
+          });
+        const options = {ifMatch: true, a: 'b'};
+        void serviceObject.setMetadata({}, options, done);
+      });
+
+      it('should send a given etag', done => {
+        serviceObject.metadata = {etag: 'etag-1'};
+        sandbox
+          .stub(ServiceObject.prototype, 'request')
+          .callsFake((reqOpts, callback) => {
+            assert.deepStrictEqual(
+              (reqOpts as DecorateRequestOptions).headers,
+              {
+                'If-Match': 'etag-2',
+              },
+            );
+            (callback as any)(null, {});
+          });
+        void serviceObject.setMetadata({}, {ifMatch: 'etag-2'}, done);
+      });
+
+      it('should not send an etag by default', done => {
+        serviceObject.metadata = {etag: 'etag-1'};
+        sandbox
+          .stub(ServiceObject.prototype, 'request')
+          .callsFake((reqOpts, callback) => {
+            assert.strictEqual(
+              (reqOpts as DecorateRequestOptions).headers,
+              undefined,
+            );
+            (callback as any)(null, {});
+          });
+        void serviceObject.setMetadata({}, done);
+      });
+
+      it('should error if there is no cached etag', done => {
+        const request = sandbox.stub(ServiceObject.prototype, 'request');
+        void serviceObject.setMetadata({}, {ifMatch: true}, err => {
+          assert.match(err!.message, /no etag/);
+          assert(request.notCalled);
+          done();
+        });
+      });
+
+      [409, 412].forEach(code => {
+        it(`should return a PreconditionFailedError on ${code}`, done => {
+          const error = new ApiError('Conflict.');
+          error.code = code;
+          sandbox
+            .stub(ServiceObject.prototype, 'request')
+            .callsArgWith(1, error);
+          const options = {ifMatch: 'etag-1'};
+          void serviceObject.setMetadata({}, options, err => {
+            assert(err instanceof PreconditionFailedError);
+            assert(err instanceof ApiError);
+            assert.strictEqual(err.code, code);
+            assert.strictEqual(err.message, 'Conflict.');
+            done();
+          });
+        });
+
+        it(`should not convert a ${code} without an etag`, done => {
+          const error = new ApiError('Conflict.');
+          error.code = code;
+          sandbox
+            .stub(ServiceObject.prototype, 'request')
+            .callsArgWith(1, error);
+          void serviceObject.setMetadata({}, (err: ApiError) => {
+            assert.strictEqual(err, error);
+            done();
+          });
+        });
+      });
+    });
+  });
+
+  describe('metadataChanged', () => {
+    function replaceMetadata(metadata: {}) {
+      const events: SO.MetadataChangedEvent[] = [];
+      serviceObject.on('metadataChanged', event => events.push(event));
+      serviceObject['replaceMetadata_'](metadata);
+      return events;
+    }
+
+    it('should emit the previous and current metadata', () => {
+      const previous = {name: 'a'};
+      const current = {name: 'b'};
+      serviceObject.metadata = previous;
+      const events = replaceMetadata(current);
+      assert.strictEqual(serviceObject.metadata, current);
+      assert.deepStrictEqual(events, [
+        {previous, current, changedFields: ['name']},
+      ]);
+    });
+
+    it('should list nested, added and removed fields', () => {
+      serviceObject.metadata = {
+        labels: {env: 'dev', team: 'a'},
+        removed: true,
+        tags: ['a'],
+        same: {deep: [1]},
+      };
+      const [event] = replaceMetadata({
+        labels: {env: 'prod', team: 'a', owner: 'b'},
+        tags: ['a', 'b'],
+        same: {deep: [1]},
+        added: {},
+      });
+      assert.deepStrictEqual(event.changedFields.sort(), [
+        'added',
+        'labels.env',
+        'labels.owner',
+        'removed',
+        'tags',
+      ]);
+    });
+
+    it('should list every field of a new object', () => {
+      serviceObject.metadata = undefined;
+      const [event] = replaceMetadata({a: 1, b: {c: 2}});
+      assert.deepStrictEqual(event.changedFields, ['a', 'b']);
+    });
+
+    it('should not emit if nothing changed', () => {
+      serviceObject.metadata = {labels: {env: 'dev'}};
+      const events = replaceMetadata({labels: {env: 'dev'}});
+      assert.deepStrictEqual(events, []);
+    });
+
+    it('should emit from getMetadata', async () => {
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsArgWith(1, null, {etag: 'b'});
+      serviceObject.metadata = {etag: 'a'};
+      const events: SO.MetadataChangedEvent[] = [];
+      serviceObject.on('metadataChanged', event => events.push(event));
+      await serviceObject.getMetadata();
+      assert.deepStrictEqual(events[0].changedFields, ['etag']);
+    });
+
+    it('should emit from setMetadata', async () => {
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsArgWith(1, null, {labels: {env: 'prod'}});
+      serviceObject.metadata = {labels: {env: 'dev'}};
+      const events: SO.MetadataChangedEvent[] = [];
+      serviceObject.on('metadataChanged', event => events.push(event));
+      await serviceObject.setMetadata({labels: {env: 'prod'}});
+      assert.deepStrictEqual(events[0].changedFields, ['labels.env']);
+    });
+
+    it('should always expose the helper', () => {
+      const config = extend({}, CONFIG, {methods: {}});
+      const serviceObject = new ServiceObject(config);
+      assert.strictEqual(typeof serviceObject.replaceMetadata_, 'function');
+    });
+  });
+
+  describe('updateMetadata', () => {
+    function conflict() {
+      const error = new ApiError('Conflict.');
+      error.code = 412;
+      return new PreconditionFailedError(error);
+    }
+
+    it('should set the patch returned from the function', async () => {
+      const getMetadata = sandbox
+        .stub(serviceObject, 'getMetadata')
+        .callsArgWith(1, null, {etag: 'etag-1', count: 1});
+      const setMetadata = sandbox
+        .stub(serviceObject, 'setMetadata')
+        .callsArgWith(2, null, {count: 2});
+      const [metadata] = await serviceObject.updateMetadata(
+        async (metadata: {count: number}) => ({count: metadata.count + 1}),
+      );
+      assert.deepStrictEqual(metadata, {count: 2});
+      assert.deepStrictEqual(getMetadata.firstCall.args[0], {cache: false});
+      assert.deepStrictEqual(setMetadata.firstCall.args[0], {count: 2});
+      assert.deepStrictEqual(setMetadata.firstCall.args[1], {ifMatch: true});
+    });
+
+    it('should retry the cycle on conflicts', async () => {
+      const getMetadata = sandbox.stub(serviceObject, 'getMetadata');
+      getMetadata.onCall(0).callsArgWith(1, null, {count: 1});
+      getMetadata.onCall(1).callsArgWith(1, null, {count: 5});
+      const setMetadata = sandbox.stub(serviceObject, 'setMetadata');
+      setMetadata.onCall(0).callsArgWith(2, conflict());
+      setMetadata.onCall(1).callsArgWith(2, null, {count: 6});
+      const [metadata] = await serviceObject.updateMetadata(
+        (metadata: {count: number}) => ({count: metadata.count + 1}),
+      );
+      assert.deepStrictEqual(metadata, {count: 6});
+      assert.deepStrictEqual(setMetadata.secondCall.args[0], {count: 6});
+    });
+
+    it('should give up after maxRetries', async () => {
+      sandbox.stub(serviceObject, 'getMetadata').callsArgWith(1, null, {});
+      const setMetadata = sandbox
+        .stub(serviceObject, 'setMetadata')
+        .callsArgWith(2, conflict());
+      await assert.rejects(
+        serviceObject.updateMetadata(() => ({}), {maxRetries: 1}),
+        PreconditionFailedError,
+      );
+      assert.strictEqual(setMetadata.callCount, 2);
+    });
+
+    it('should not retry other errors', async () => {
+      const error = new Error('Error.');
+      sandbox.stub(serviceObject, 'getMetadata').callsArgWith(1, null, {});
+      const setMetadata = sandbox
+        .stub(serviceObject, 'setMetadata')
+        .callsArgWith(2, error);
+      await assert.rejects(
+        serviceObject.updateMetadata(() => ({})),
+        error,
+      );
+      assert.strictEqual(setMetadata.callCount, 1);
+    });
+
+    it('should accept a callback', done => {
+      const apiResponse = {};
+      sandbox.stub(serviceObject, 'getMetadata').callsArgWith(1, null, {});
+      sandbox
+        .stub(serviceObject, 'setMetadata')
+        .callsArgWith(2, null, {updated: true}, apiResponse);
+      void serviceObject.updateMetadata(
+        () => ({}),
+        (err: Error | null, metadata: {}, apiResponse_?: {}) => {
+          assert.ifError(err);
+          assert.deepStrictEqual(metadata, {updated: true});
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        },
+      );
+    });
+
+    it('should call callback-only overrides', async () => {
+      class CallbackServiceObject extends SO.ServiceObject {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        getMetadata(...args: Array<{}>): any {
+          const callback = args.pop() as Function;
+          callback(null, {count: 1}, {} as r.Response);
+        }
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        setMetadata(metadata: {}, ...args: Array<{}>): any {
+          const callback = args.pop() as Function;
+          callback(null, metadata, {} as r.Response);
+        }
+      }
+      const [metadata] = await new CallbackServiceObject(CONFIG).updateMetadata(
+        (metadata: {count: number}) => ({count: metadata.count + 1}),
+      );
+      assert.deepStrictEqual(metadata, {count: 2});
+    });
+  });
+
+  describe('custom methods', () => {
+    function createServiceObject(methods: SO.Methods): FakeServiceObject {
+      return new ServiceObject(extend({}, CONFIG, {methods}));
+    }
+
+    it('should POST the options to the configured uri', async () => {
+      const body = {permissions: ['a']};
+      const apiResponse = {} as r.Response;
+      const serviceObject = createServiceObject({
+        testIamPermissions: {uri: ':testIamPermissions'},
+      });
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsFake((reqOpts, callback) => {
+          assert.strictEqual(
+            (reqOpts as DecorateRequestOptions).method,
+            'POST',
+          );
+          assert.strictEqual(
+            (reqOpts as DecorateRequestOptions).uri,
+            ':testIamPermissions',
+          );
+          assert.deepStrictEqual((reqOpts as DecorateRequestOptions).json, {
+            permissions: ['b'],
+          });
+          (callback as any)(null, body, apiResponse);
+        });
+      const [result, apiResponse_] = await serviceObject.testIamPermissions({
+        permissions: ['b'],
+      });
+      assert.strictEqual(result, body);
+      assert.strictEqual(apiResponse_, apiResponse);
+    });
+
+    it('should send the options of GET requests as the query', async () => {
+      const serviceObject = createServiceObject({
+        getStatus: {method: 'get', uri: ':status'},
+      });
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsFake((reqOpts, callback) => {
+          assert.strictEqual((reqOpts as DecorateRequestOptions).method, 'GET');
+          assert.deepStrictEqual((reqOpts as DecorateRequestOptions).qs, {
+            view: 'FULL',
+          });
+          assert.strictEqual(
+            (reqOpts as DecorateRequestOptions).json,
+            undefined,
+          );
+          (callback as any)(null, {}, {});
+        });
+      await serviceObject.getStatus({view: 'FULL'});
+    });
+
+    it('should map the body and the response', async () => {
+      const serviceObject = createServiceObject({
+        testIamPermissions: {
+          uri: ':testIamPermissions',
+          bodyFn: (options: {permissions?: string[]}) => ({
+            permissions: options.permissions,
+          }),
+          responseFn: body => body.permissions || [],
+        },
+      });
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsFake((reqOpts, callback) => {
+          assert.deepStrictEqual((reqOpts as DecorateRequestOptions).json, {
+            permissions: ['a', 'b'],
+          });
+          (callback as any)(null, {permissions: ['a']}, {});
+        });
+      const [permissions] = await serviceObject.testIamPermissions({
+        permissions: ['a', 'b'],
+        other: true,
+      });
+      assert.deepStrictEqual(permissions, ['a']);
+    });
+
+    it('should extend the request options of the method', async () => {
+      const serviceObject = createServiceObject({
+        undelete: {uri: ':undelete', reqOpts: {headers: {a: 'b'}}},
+      });
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsFake((reqOpts, callback) => {
+          assert.deepStrictEqual((reqOpts as DecorateRequestOptions).headers, {
+            a: 'b',
+          });
+          (callback as any)(null, {}, {});
+        });
+      await serviceObject.undelete();
+    });
+
+    it('should pass the signal in the request options', async () => {
+      const signal = new AbortController().signal;
+      const serviceObject = createServiceObject({undelete: {uri: ':undelete'}});
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsFake((reqOpts, callback) => {
+          assert.strictEqual(
+            (reqOpts as DecorateRequestOptions).signal,
+            signal,
+          );
+          assert.deepStrictEqual((reqOpts as DecorateRequestOptions).json, {});
+          (callback as any)(null, {}, {});
+        });
+      await serviceObject.undelete({signal});
+    });
+
+    it('should accept a callback', done => {
+      const body = {};
+      const serviceObject = createServiceObject({undelete: {uri: ':undelete'}});
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsArgWith(1, null, body, {});
+      serviceObject.undelete((err: Error | null, result: {}) => {
+        assert.ifError(err);
+        assert.strictEqual(result, body);
+        done();
+      });
+    });
+
+    it('should execute callback with error & API response', done => {
+      const apiResponse = {} as r.Response;
+      const error = new ApiError({code: 500, response: apiResponse});
+      const serviceObject = createServiceObject({undelete: {uri: ':undelete'}});
+      sandbox.stub(ServiceObject.prototype, 'request').callsArgWith(1, error);
+      serviceObject.undelete(
+        {},
+        (err: Error | null, result: {}, apiResponse_: {}) => {
+          assert.strictEqual(err, error);
+          assert.strictEqual(result, undefined);
+          assert.strictEqual(apiResponse_, apiResponse);
+          done();
+        },
+      );
+    });
+
+    it('should return an Operation for long-running responses', async () => {
+      const serviceObject = createServiceObject({
+        undelete: {uri: ':undelete', longRunning: true},
+      });
+      sandbox
+        .stub(ServiceObject.prototype, 'request')
+        .callsArgWith(1, null, {name: 'operations/abc', done: false}, {});
+      const [operation] = await serviceObject.undelete();
+      assert(operation instanceof Operation);
+    });
+
+    it('should not replace inherited methods', () => {
+      const serviceObject = createServiceObject({
+        delete: {reqOpts: {qs: {force: true}}},
+      });
+      assert.strictEqual(serviceObject.delete, ServiceObject.prototype.delete);
+    });
+
+    it('should not generate methods for boolean entries', () => {
+      const serviceObject = createServiceObject({undelete: true});
+      assert.strictEqual(serviceObject.undelete, undefined);
+    });
   });
 
   describe('request_', () => {
@@ -1194,6 +2179,29 @@ describe('ServiceObject', () => {
       await serviceObject.request(fakeOptions);
     });
 
+    it('should resolve with the body & API response', async () => {
+      const response = {body: {abc: '123'}, statusCode: 200} as r.Response;
+      sandbox
+        .stub(asInternal(serviceObject), 'request_')
+        .callsArgWith(1, null, response.body, response);
+      const [body, res] = await serviceObject.request(
+        {} as DecorateRequestOptions,
+      );
+      assert.strictEqual(body, response.body);
+      assert.strictEqual(res, response);
+    });
+
+    it('should reject with a request error', async () => {
+      const error = new Error('Error.');
+      sandbox
+        .stub(asInternal(serviceObject), 'request_')
+        .callsArgWith(1, error);
+      await assert.rejects(
+        serviceObject.request({} as DecorateRequestOptions),
+        error,
+      );
+    });
+
     it('should accept a callback', done => {
       const response = {body: {abc: '123'}, statusCode: 200} as r.Response;
       sandbox
@@ -1225,6 +2233,50 @@ describe('ServiceObject', () => {
     });
   });
 
+  describe('paginate', () => {
+    it('should paginate through request', async () => {
+      const pages: {[pageToken: string]: {}} = {
+        '': {items: [1, 2], nextPageToken: 'b'},
+        b: {items: [3]},
+      };
+      sandbox.stub(serviceObject, 'request').callsFake((reqOpts, callback) => {
+        assert.strictEqual(reqOpts.uri, 'list');
+        callback!(null, pages[reqOpts.qs.pageToken || '']);
+      });
+      const items = [];
+      for await (const item of serviceObject.paginate({uri: 'list'})) {
+        items.push(item);
+      }
+      assert.deepStrictEqual(items, [1, 2, 3]);
+    });
+
+    it('should always expose the paginate method', () => {
+      const config = extend({}, CONFIG, {methods: {}});
+      const serviceObject = new ServiceObject(config);
+      assert.strictEqual(typeof serviceObject.paginate, 'function');
+    });
+  });
+
+  describe('createListStream', () => {
+    it('should stream items through request', async () => {
+      sandbox.stub(serviceObject, 'request').callsFake((reqOpts, callback) => {
+        assert.strictEqual(reqOpts.uri, 'list');
+        callback!(null, {items: [1, 2]});
+      });
+      const items = [];
+      for await (const item of serviceObject.createListStream({uri: 'list'})) {
+        items.push(item);
+      }
+      assert.deepStrictEqual(items, [1, 2]);
+    });
+
+    it('should always expose the createListStream method', () => {
+      const config = extend({}, CONFIG, {methods: {}});
+      const serviceObject = new ServiceObject(config);
+      assert.strictEqual(typeof serviceObject.createListStream, 'function');
+    });
+  });
+
   describe('requestStream', () => {
     it('should call through to request_', async () => {
       const fakeOptions = {} as DecorateRequestOptions;
@@ -409,6 +409,15 @@ describe('Service', () => {
       service.request_(reqOpts, () => done());
     });
 
+    it('should pass the signal through', done => {
+      const controller = new AbortController();
+      service.makeAuthenticatedRequest = (reqOpts_: DecorateRequestOptions) => {
+        assert.strictEqual(reqOpts_.signal, controller.signal);
+        done();
+      };
+      service.request_({uri: 'uri', signal: controller.signal}, assert.ifError);
+    });
+
     it('should support absolute uris', done => {
       const expectedUri = 'http://www.google.com';
 
@@ -709,6 +718,44 @@ describe('Service', () => {
     });
   });
 
+  describe('paginate', () => {
+    it('should paginate through request', async () => {
+      const pages: {[pageToken: string]: {}} = {
+        '': {items: [1, 2], nextPageToken: 'b'},
+        b: {items: [3]},
+      };
+      service.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: BodyResponseCallback,
+      ) => {
+        assert.strictEqual(reqOpts.uri, 'list');
+        callback(null, pages[reqOpts.qs.pageToken || '']);
+      };
+      const items = [];
+      for await (const item of service.paginate({uri: 'list'})) {
+        items.push(item);
+      }
+      assert.deepStrictEqual(items, [1, 2, 3]);
+    });
+  });
+
+  describe('createListStream', () => {
+    it('should stream items through request', async () => {
+      service.request = (
+        reqOpts: DecorateRequestOptions,
+        callback: BodyResponseCallback,
+      ) => {
+        assert.strictEqual(reqOpts.uri, 'list');
+        callback(null, {items: [1, 2]});
+      };
+      const items = [];
+      for await (const item of service.createListStream({uri: 'list'})) {
+        items.push(item);
+      }
+      assert.deepStrictEqual(items, [1, 2]);
+    });
+  });
+
   describe('requestStream', () => {
     let request_: Request;
 
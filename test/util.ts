@@ -332,6 +332,25 @@ describe('common/util', () => {
     });
   });
 
+  describe('PreconditionFailedError', () => {
+    it('should build correct PreconditionFailedError', () => {
+      const apiError = new util.ApiError({
+        code: 412,
+        errors: [{message: 'Precondition Failed'}],
+        response: fakeResponse,
+      });
+
+      const error = new util.PreconditionFailedError(apiError);
+
+      assert(error instanceof util.ApiError);
+      assert.strictEqual(error.name, 'PreconditionFailedError');
+      assert.strictEqual(error.code, 412);
+      assert.strictEqual(error.errors, apiError.errors);
+      assert.strictEqual(error.response, fakeResponse);
+      assert.strictEqual(error.message, apiError.message);
+    });
+  });
+
   describe('handleResp', () => {
     it('should handle errors', done => {
       const error = new Error('Error.');
@@ -902,6 +921,71 @@ describe('common/util', () => {
       });
     });
 
+    describe('signal', () => {
+      let controller: AbortController;
+      let resolveAuth: (reqOpts: DecorateRequestOptions) => void;
+
+      beforeEach(() => {
+        controller = new AbortController();
+        const fake = extend(true, {}, authClient, {
+          authorizeRequest: (reqOpts: DecorateRequestOptions) =>
+            new Promise(resolve => {
+              resolveAuth = () => resolve(reqOpts);
+            }),
+        });
+        sandbox.stub(fakeGoogleAuth, 'GoogleAuth').returns(fake);
+      });
+
+      it('should not make the request if aborted while authenticating', done => {
+        const makeRequest = stub('makeRequest', util.noop);
+        const mar = util.makeAuthenticatedRequestFactory({});
+        const reqOpts = {uri: 'uri', signal: controller.signal};
+        mar(reqOpts, (err: Error | null) => {
+          assert.strictEqual(err!.name, 'AbortError');
+          resolveAuth(reqOpts);
+          setImmediate(() => {
+            assert(makeRequest.notCalled);
+            done();
+          });
+        });
+        controller.abort();
+      });
+
+      it('should fail with the reason if already aborted', done => {
+        const reason = new Error('Aborted.');
+        controller.abort(reason);
+        const mar = util.makeAuthenticatedRequestFactory({});
+        mar({uri: 'uri', signal: controller.signal}, (err: Error | null) => {
+          assert.strictEqual(err, reason);
+          done();
+        });
+      });
+
+      it('should ignore responses after being aborted', done => {
+        stub('makeRequest', (reqOpts, cfg, callback) => {
+          controller.abort();
+          callback(null, {});
+        });
+        const mar = util.makeAuthenticatedRequestFactory({});
+        const reqOpts = {uri: 'uri', signal: controller.signal};
+        mar(reqOpts, (err: Error | null) => {
+          assert.strictEqual(err!.name, 'AbortError');
+          done();
+        });
+        resolveAuth(reqOpts);
+      });
+
+      it('should destroy the stream when aborted', done => {
+        const mar = util.makeAuthenticatedRequestFactory({});
+        const stream = mar({uri: 'uri', signal: controller.signal});
+        stream.on('error', (err: Error) => {
+          assert.strictEqual(err.name, 'AbortError');
+          done();
+        });
+        controller.abort();
+      });
+    });
+
     describe('authentication', () => {
       it('should pass correct args to authorizeRequest', done => {
         const fake = extend(true, authClient, {
@@ -1647,6 +1731,95 @@ describe('common/util', () => {
         assert.strictEqual(res, requestInstance);
       });
 
+      describe('signal', () => {
+        let controller: AbortController;
+
+        beforeEach(() => {
+          controller = new AbortController();
+        });
+
+        it('should abort the request and fail with the reason', done => {
+          const abort = sandbox.spy();
+          retryRequestOverride = () => ({abort});
+          util.makeRequest(
+            {uri: 'uri', signal: controller.signal},
+            {},
+            (err: Error | null) => {
+              assert.strictEqual(err!.name, 'AbortError');
+              assert(abort.calledOnce);
+              done();
+            },
+          );
+          controller.abort();
+        });
+
+        it('should ignore responses after being aborted', done => {
+          let onResponse: Function;
+          retryRequestOverride = (
+            rOpts: DecorateRequestOptions,
+            opts: MakeRequestConfig,
+            callback: Function,
+          ) => {
+            onResponse = callback;
+            return {abort: util.noop};
+          };
+          const callback = sandbox.spy();
+          util.makeRequest(
+            {uri: 'uri', signal: controller.signal},
+            {},
+            callback,
+          );
+          controller.abort();
+          onResponse!(null, fakeResponse, fakeResponse.body);
+          assert(callback.calledOnce);
+          assert.strictEqual(callback.firstCall.args[0].name, 'AbortError');
+          done();
+        });
+
+        it('should abandon a real request in flight', done => {
+          const scope = nock('https://abort.example.com')
+            .get('/slow')
+            .delay(100)
+            .reply(200, {});
+          const callback = sandbox.spy();
+          util.makeRequest(
+            {uri: 'https://abort.example.com/slow', signal: controller.signal},
+            {},
+            callback,
+          );
+          setTimeout(() => {
+            controller.abort();
+            assert(callback.calledOnce);
+            assert.strictEqual(callback.firstCall.args[0].name, 'AbortError');
+          }, 10);
+          setTimeout(() => {
+            // The response arrived, but was ignored.
+            assert(scope.isDone());
+            assert(callback.calledOnce);
+            done();
+          }, 300);
+        });
+
+        it('should not start attempts once aborted', done => {
+          requestOverride = sandbox.spy();
+          retryRequestOverride = (
+            rOpts: DecorateRequestOptions,
+            opts: retryRequest.Options,
+          ) => {
+            controller.abort();
+            opts.request!(rOpts, util.noop);
+            assert(requestOverride.notCalled);
+            done();
+            return {abort: util.noop};
+          };
+          util.makeRequest(
+            {uri: 'uri', signal: controller.signal},
+            {},
+            util.noop,
+          );
+        });
+      });
+
       it('should let handleResp handle the response', done => {
         const error = new Error('Error.');
         const body = fakeResponse.body;